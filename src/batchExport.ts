@@ -0,0 +1,378 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { DiagramRenderer, type RenderFormat } from './diagramRenderer';
+import { type MermaidBlock, scanMermaidBlocks } from './mermaidBlocks';
+import { getMermaidConfig, type MermaidConfig } from './mermaidConfig';
+import { findDiagramTitle } from './mermaidSyntax';
+import { applyTheme, resolveTheme } from './theme';
+import { Logger } from './util/logger';
+
+const DIAGRAM_FILE_GLOB = '**/*.{md,markdown,mmd,mermaid}';
+const EXCLUDE_GLOB = '**/node_modules/**';
+
+export type ExportSettings = {
+	formats: RenderFormat[];
+	scale: number;
+	// Includes the resolved theme, see applyTheme
+	mermaidConfig: MermaidConfig;
+	renderTimeout: number;
+};
+
+type ExportJob = {
+	uri: vscode.Uri;
+	blocks: MermaidBlock[];
+	isMermaidFile: boolean;
+};
+
+type ExportFailure = {
+	uri: vscode.Uri;
+	line: number;
+	message: string;
+};
+
+export function getExportSettings(resource?: vscode.Uri): ExportSettings {
+	const config = vscode.workspace.getConfiguration('mermaidLivePreview');
+	const formats = config
+		.get<string[]>('exportFormats', ['svg'])
+		.filter(
+			(format): format is RenderFormat => format === 'svg' || format === 'png',
+		);
+	const scale = config.get<number>('exportScale', 2);
+
+	return {
+		formats: formats.length ? [...new Set(formats)] : ['svg'],
+		scale: Math.min(Math.max(scale, 1), 4),
+		mermaidConfig: applyTheme(
+			resolveTheme(undefined, resource).theme,
+			getMermaidConfig(resource),
+		),
+		renderTimeout: config.get<number>('renderTimeout', 0),
+	};
+}
+
+export function isMermaidFileUri(uri: vscode.Uri): boolean {
+	const extension = path.posix.extname(uri.path).toLowerCase();
+	return extension === '.mmd' || extension === '.mermaid';
+}
+
+/**
+ * Export every diagram in the workspace, or in `folder` when the command is run
+ * from the Explorer context menu, into the configured output directory.
+ */
+export async function exportAllDiagrams(
+	extensionUri: vscode.Uri,
+	folder?: vscode.Uri,
+): Promise<void> {
+	const logger = Logger.instance;
+	const include = folder
+		? new vscode.RelativePattern(folder, DIAGRAM_FILE_GLOB)
+		: await pickExportScope();
+	if (!include) {
+		return;
+	}
+
+	const settings = getExportSettings();
+	const outputDirectory = vscode.workspace
+		.getConfiguration('mermaidLivePreview')
+		.get<string>('exportOutputDirectory', 'diagrams');
+
+	await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: 'Exporting Mermaid diagrams',
+			cancellable: true,
+		},
+		async (progress, token) => {
+			progress.report({ message: 'Scanning for diagrams…' });
+			const jobs = await collectExportJobs(include, token);
+			const total = jobs.reduce((sum, job) => sum + job.blocks.length, 0);
+			if (token.isCancellationRequested) {
+				return;
+			}
+			if (total === 0) {
+				vscode.window.showInformationMessage(
+					'No Mermaid diagrams found to export.',
+				);
+				return;
+			}
+
+			logger.logInfo('Exporting all diagrams', {
+				files: jobs.length,
+				diagrams: total,
+				formats: settings.formats,
+			});
+
+			let renderer: DiagramRenderer;
+			try {
+				renderer = await DiagramRenderer.create(extensionUri);
+			} catch (error) {
+				logger.logError(
+					'Failed to start the export renderer',
+					error instanceof Error ? error : new Error(String(error)),
+				);
+				vscode.window.showErrorMessage(`Failed to export diagrams: ${error}`);
+				return;
+			}
+			const cancelSubscription = token.onCancellationRequested(() =>
+				renderer.dispose(),
+			);
+
+			const failures: ExportFailure[] = [];
+			const usedNames = new Set<string>();
+			let exported = 0;
+			try {
+				for (const job of jobs) {
+					const targetDir = resolveOutputDirectory(job.uri, outputDirectory);
+					const names = diagramFileNames(job, targetDir, usedNames);
+					// Config files can differ per folder, so theme and options are per source
+					const jobSettings = getExportSettings(job.uri);
+
+					for (let index = 0; index < job.blocks.length; index++) {
+						if (token.isCancellationRequested) {
+							break;
+						}
+
+						const block = job.blocks[index];
+						progress.report({
+							increment: 100 / total,
+							message: `${vscode.workspace.asRelativePath(job.uri)} (${exported + failures.length + 1}/${total})`,
+						});
+
+						try {
+							await vscode.workspace.fs.createDirectory(targetDir);
+							for (const format of jobSettings.formats) {
+								const data = await renderer.render(block.code, {
+									format,
+									mermaidConfig: jobSettings.mermaidConfig,
+									scale: jobSettings.scale,
+									timeout: jobSettings.renderTimeout,
+								});
+								await vscode.workspace.fs.writeFile(
+									vscode.Uri.joinPath(targetDir, `${names[index]}.${format}`),
+									data,
+								);
+							}
+							exported++;
+						} catch (error) {
+							if (token.isCancellationRequested) {
+								break;
+							}
+							failures.push({
+								uri: job.uri,
+								line: block.startLine + 1,
+								message: error instanceof Error ? error.message : String(error),
+							});
+						}
+					}
+				}
+			} finally {
+				cancelSubscription.dispose();
+				renderer.dispose();
+			}
+
+			reportExportSummary(
+				exported,
+				total,
+				failures,
+				token.isCancellationRequested,
+			);
+		},
+	);
+}
+
+async function pickExportScope(): Promise<vscode.GlobPattern | undefined> {
+	const chooseFolder = 'Choose Folder…';
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	const choice = folders.length
+		? await vscode.window.showQuickPick(['Entire Workspace', chooseFolder], {
+				placeHolder: 'Export Mermaid diagrams from',
+			})
+		: chooseFolder;
+	if (!choice) {
+		return undefined;
+	}
+	if (choice !== chooseFolder) {
+		return DIAGRAM_FILE_GLOB;
+	}
+
+	const selection = await vscode.window.showOpenDialog({
+		canSelectFiles: false,
+		canSelectFolders: true,
+		canSelectMany: false,
+		defaultUri: folders[0]?.uri,
+		openLabel: 'Export Diagrams',
+	});
+	return selection?.[0]
+		? new vscode.RelativePattern(selection[0], DIAGRAM_FILE_GLOB)
+		: undefined;
+}
+
+async function collectExportJobs(
+	include: vscode.GlobPattern,
+	token: vscode.CancellationToken,
+): Promise<ExportJob[]> {
+	const uris = await vscode.workspace.findFiles(
+		include,
+		EXCLUDE_GLOB,
+		undefined,
+		token,
+	);
+	// Sorted so the progress order and any name collisions are deterministic
+	uris.sort((a, b) => a.toString().localeCompare(b.toString()));
+
+	const decoder = new TextDecoder();
+	const jobs: ExportJob[] = [];
+	for (const uri of uris) {
+		if (token.isCancellationRequested) {
+			break;
+		}
+		try {
+			const text = decoder.decode(await vscode.workspace.fs.readFile(uri));
+			const isMermaidFile = isMermaidFileUri(uri);
+			const blocks = scanMermaidBlocks(
+				text,
+				isMermaidFile ? 'mermaid' : 'markdown',
+			);
+			if (blocks.length) {
+				jobs.push({ uri, blocks, isMermaidFile });
+			}
+		} catch (error) {
+			Logger.instance.logWarning('Skipping unreadable file during export', {
+				path: uri.fsPath,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+	return jobs;
+}
+
+/**
+ * Output directory for a source file: the configured directory (relative to the
+ * source's workspace folder unless absolute) with the source's folder structure
+ * mirrored beneath it, so files with the same name in different folders do not
+ * overwrite each other.
+ */
+function resolveOutputDirectory(
+	uri: vscode.Uri,
+	outputDirectory: string,
+): vscode.Uri {
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+	const sourceDir = path.posix.dirname(uri.path);
+	if (!workspaceFolder) {
+		return vscode.Uri.joinPath(
+			uri.with({ path: sourceDir }),
+			outputDirectory || '.',
+		);
+	}
+
+	const relativeDir = path.posix.relative(workspaceFolder.uri.path, sourceDir);
+	const root = path.isAbsolute(outputDirectory)
+		? vscode.Uri.file(outputDirectory)
+		: vscode.Uri.joinPath(workspaceFolder.uri, outputDirectory || '.');
+	return relativeDir ? vscode.Uri.joinPath(root, relativeDir) : root;
+}
+
+/**
+ * File names (without extension) for each diagram of a source: the source name
+ * for `.mmd` files, otherwise the source name plus the diagram title, falling
+ * back to the 1-based diagram index when untitled. `usedNames` is shared by all
+ * sources in a run, so a name already taken in the same output directory (such
+ * as `flow.mmd` next to `flow.mermaid`) keeps the source extension, and then
+ * gets a numeric suffix if that is taken too.
+ */
+function diagramFileNames(
+	job: ExportJob,
+	targetDir: vscode.Uri,
+	usedNames: Set<string>,
+): string[] {
+	const { name: baseName, ext } = path.posix.parse(job.uri.path);
+	const claim = (name: string, fallback: string) => {
+		let candidate = name;
+		if (usedNames.has(outputKey(targetDir, candidate))) {
+			candidate = fallback;
+		}
+		for (
+			let suffix = 2;
+			usedNames.has(outputKey(targetDir, candidate));
+			suffix++
+		) {
+			candidate = `${fallback}-${suffix}`;
+		}
+		usedNames.add(outputKey(targetDir, candidate));
+		return candidate;
+	};
+
+	if (job.isMermaidFile) {
+		return [claim(baseName, `${baseName}${ext}`)];
+	}
+
+	return job.blocks.map((block, index) => {
+		const title = findDiagramTitle(block.code.split(/\r?\n/));
+		const slug = title ? slugify(title) : '';
+		const name = slug ? `${baseName}-${slug}` : `${baseName}-${index + 1}`;
+		return claim(
+			name,
+			slug ? `${name}-${index + 1}` : `${baseName}${ext}-${index + 1}`,
+		);
+	});
+}
+
+// Case-insensitive so names that differ only in case do not overwrite each other
+// on Windows and macOS
+function outputKey(targetDir: vscode.Uri, name: string): string {
+	return vscode.Uri.joinPath(targetDir, name).toString().toLowerCase();
+}
+
+function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '')
+		.slice(0, 60);
+}
+
+function reportExportSummary(
+	exported: number,
+	total: number,
+	failures: ExportFailure[],
+	cancelled: boolean,
+) {
+	const logger = Logger.instance;
+	for (const failure of failures) {
+		logger.logWarning('Failed to export diagram', {
+			path: failure.uri.fsPath,
+			line: failure.line,
+			error: failure.message,
+		});
+	}
+	logger.logInfo('Finished exporting diagrams', {
+		exported,
+		failed: failures.length,
+		total,
+		cancelled,
+	});
+
+	if (cancelled) {
+		vscode.window.showWarningMessage(
+			`Export cancelled after ${exported} of ${total} diagrams.`,
+		);
+		return;
+	}
+
+	if (failures.length === 0) {
+		vscode.window.showInformationMessage(
+			`Exported ${exported} Mermaid ${exported === 1 ? 'diagram' : 'diagrams'}.`,
+		);
+		return;
+	}
+
+	const first = failures[0];
+	const summary = `Exported ${exported} of ${total} diagrams; ${failures.length} failed (first: ${vscode.workspace.asRelativePath(first.uri)}:${first.line}).`;
+	vscode.window
+		.showWarningMessage(summary, 'Show Details')
+		.then((selection) => {
+			if (selection === 'Show Details') {
+				logger.show();
+			}
+		});
+}
@@ -0,0 +1,417 @@
+import * as vscode from 'vscode';
+import { DIAGNOSTIC_SOURCE } from './diagnostics';
+import {
+	findClosingBracket,
+	findReservedEndIds,
+	getIdentifierTokens,
+} from './diagramModel';
+import {
+	findMermaidBlockAtLine,
+	type MermaidBlock,
+	type MermaidBlockLine,
+} from './mermaidBlocks';
+import { DIAGRAM_TYPES, findDiagramHeader } from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+// Diagram headers with a newer replacement, offered as rewrites on the header
+const MIGRATIONS: Record<string, string> = {
+	graph: 'flowchart',
+	stateDiagram: 'stateDiagram-v2',
+};
+
+// A node shape opening after its ID, or an edge label between pipes
+const LABEL_START =
+	/(\w+(?:-\w+)*)(\(\(\(|\(\(|\[\[|\[\(|\(\[|\{\{|\[\/|\[\\|\[|\(|\{|>)|\|/g;
+// Characters Mermaid only accepts in labels inside quotes
+const SPECIAL_LABEL_CHARS = /[()[\]{}<>;|]/;
+
+export class MermaidCodeActionProvider implements vscode.CodeActionProvider {
+	public static readonly providedCodeActionKinds = [
+		vscode.CodeActionKind.QuickFix,
+		vscode.CodeActionKind.RefactorRewrite,
+	];
+
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideCodeActions(
+		document: vscode.TextDocument,
+		range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext,
+	): vscode.ProviderResult<vscode.CodeAction[]> {
+		try {
+			const block = findMermaidBlockAtLine(document, range.start.line);
+			if (!block) {
+				return undefined;
+			}
+
+			const actions: vscode.CodeAction[] = [];
+			for (const diagnostic of context.diagnostics) {
+				if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+					continue;
+				}
+				switch (diagnostic.code) {
+					case 'unclosed-block':
+						actions.push(this.insertEndAction(document, block, diagnostic));
+						break;
+					case 'unexpected-end':
+						actions.push(this.removeEndAction(document, diagnostic));
+						break;
+					case 'unknown-diagram-type':
+						actions.push(
+							...this.diagramTypeActions(document, block, diagnostic),
+						);
+						break;
+					case 'reserved-end':
+						actions.push(this.renameEndAction(document, block, diagnostic));
+						break;
+					case 'render-error':
+						actions.push(
+							...this.quoteLabelsAction(document, block, diagnostic),
+						);
+						break;
+				}
+			}
+
+			actions.push(...this.migrationActions(document, block, range));
+			return actions;
+		} catch (error) {
+			this.logger.logDebug(
+				'CodeActionProvider',
+				'Failed to compute code actions',
+				{ error: error instanceof Error ? error.message : String(error) },
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Closes the block before the first following line that is not indented under
+	 * it, or at the end of the diagram when the body is not indented.
+	 */
+	private insertEndAction(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		diagnostic: vscode.Diagnostic,
+	): vscode.CodeAction {
+		const index = block.contentLines.findIndex(
+			(contentLine) => contentLine.line === diagnostic.range.start.line,
+		);
+		const opener = block.contentLines[index];
+		const indent = leadingWhitespace(opener.text);
+		const body = block.contentLines
+			.slice(index + 1)
+			.filter((contentLine) => contentLine.text.trim());
+
+		let last = opener;
+		for (const contentLine of body) {
+			if (leadingWhitespace(contentLine.text).length <= indent.length) {
+				break;
+			}
+			last = contentLine;
+		}
+		if (last === opener) {
+			last = body[body.length - 1] ?? opener;
+		}
+
+		const action = new vscode.CodeAction(
+			'Insert missing `end`',
+			vscode.CodeActionKind.QuickFix,
+		);
+		action.diagnostics = [diagnostic];
+		action.isPreferred = true;
+		action.edit = new vscode.WorkspaceEdit();
+		action.edit.insert(
+			document.uri,
+			new vscode.Position(last.line, last.character + last.text.length),
+			`\n${linePrefix(document, last)}${indent}end`,
+		);
+		return action;
+	}
+
+	private removeEndAction(
+		document: vscode.TextDocument,
+		diagnostic: vscode.Diagnostic,
+	): vscode.CodeAction {
+		const line = diagnostic.range.start.line;
+		const action = new vscode.CodeAction(
+			'Remove unmatched `end`',
+			vscode.CodeActionKind.QuickFix,
+		);
+		action.diagnostics = [diagnostic];
+		action.edit = new vscode.WorkspaceEdit();
+		action.edit.delete(document.uri, new vscode.Range(line, 0, line + 1, 0));
+		return action;
+	}
+
+	/**
+	 * Suggests known diagram types close to a misspelt header, and a header guessed
+	 * from the diagram's arrows when the first statement is not a header at all.
+	 */
+	private diagramTypeActions(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		diagnostic: vscode.Diagnostic,
+	): vscode.CodeAction[] {
+		const contentLine = block.contentLines.find(
+			(candidate) => candidate.line === diagnostic.range.start.line,
+		);
+		if (!contentLine) {
+			return [];
+		}
+
+		const actions: vscode.CodeAction[] = [];
+		const start = leadingWhitespace(contentLine.text).length;
+		const type = contentLine.text.slice(start).split(/[\s;:]+/)[0];
+		const suggestions = DIAGRAM_TYPES.map((candidate) => ({
+			candidate,
+			distance: editDistance(type.toLowerCase(), candidate.toLowerCase()),
+		}))
+			.filter(({ distance }) => distance <= Math.min(2, type.length - 3))
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, 3);
+
+		for (const { candidate } of suggestions) {
+			const action = new vscode.CodeAction(
+				`Change to \`${candidate}\``,
+				vscode.CodeActionKind.QuickFix,
+			);
+			action.diagnostics = [diagnostic];
+			action.isPreferred = suggestions.length === 1;
+			action.edit = new vscode.WorkspaceEdit();
+			const character = contentLine.character + start;
+			action.edit.replace(
+				document.uri,
+				new vscode.Range(
+					contentLine.line,
+					character,
+					contentLine.line,
+					character + type.length,
+				),
+				candidate,
+			);
+			actions.push(action);
+		}
+
+		const header = guessDiagramHeader(block.code);
+		const action = new vscode.CodeAction(
+			`Add \`${header}\` diagram type header`,
+			vscode.CodeActionKind.QuickFix,
+		);
+		action.diagnostics = [diagnostic];
+		action.edit = new vscode.WorkspaceEdit();
+		action.edit.insert(
+			document.uri,
+			new vscode.Position(contentLine.line, contentLine.character),
+			`${header}\n${linePrefix(document, contentLine)}`,
+		);
+		actions.push(action);
+		return actions;
+	}
+
+	private renameEndAction(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		diagnostic: vscode.Diagnostic,
+	): vscode.CodeAction {
+		const used = new Set(getIdentifierTokens(block).map((token) => token.name));
+		const name =
+			['End', 'END', 'endNode'].find((candidate) => !used.has(candidate)) ??
+			'endNode';
+
+		const action = new vscode.CodeAction(
+			`Rename node \`end\` to \`${name}\``,
+			vscode.CodeActionKind.QuickFix,
+		);
+		action.diagnostics = [diagnostic];
+		action.isPreferred = true;
+		action.edit = new vscode.WorkspaceEdit();
+		for (const contentLine of block.contentLines) {
+			for (const column of findReservedEndIds(contentLine.text)) {
+				const character = contentLine.character + column;
+				action.edit.replace(
+					document.uri,
+					new vscode.Range(
+						contentLine.line,
+						character,
+						contentLine.line,
+						character + 3,
+					),
+					name,
+				);
+			}
+		}
+		return action;
+	}
+
+	private quoteLabelsAction(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		diagnostic: vscode.Diagnostic,
+	): vscode.CodeAction[] {
+		const contentLine = block.contentLines.find(
+			(candidate) => candidate.line === diagnostic.range.start.line,
+		);
+		const labels = contentLine ? findUnquotedLabels(contentLine.text) : [];
+		if (!contentLine || !labels.length) {
+			return [];
+		}
+
+		const action = new vscode.CodeAction(
+			labels.length === 1
+				? 'Quote label with special characters'
+				: 'Quote labels with special characters',
+			vscode.CodeActionKind.QuickFix,
+		);
+		action.diagnostics = [diagnostic];
+		action.edit = new vscode.WorkspaceEdit();
+		for (const label of labels) {
+			const text = contentLine.text.slice(label.start, label.end);
+			action.edit.replace(
+				document.uri,
+				new vscode.Range(
+					contentLine.line,
+					contentLine.character + label.start,
+					contentLine.line,
+					contentLine.character + label.end,
+				),
+				`"${text.replace(/"/g, '#quot;')}"`,
+			);
+		}
+		return [action];
+	}
+
+	private migrationActions(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		range: vscode.Range,
+	): vscode.CodeAction[] {
+		const header = findDiagramHeader(
+			block.contentLines.map((contentLine) => contentLine.text),
+		);
+		const contentLine = header ? block.contentLines[header.line] : undefined;
+		const replacement = header ? MIGRATIONS[header.type] : undefined;
+		if (
+			!header ||
+			!contentLine ||
+			!replacement ||
+			range.start.line > contentLine.line ||
+			range.end.line < contentLine.line
+		) {
+			return [];
+		}
+
+		const character =
+			contentLine.character + leadingWhitespace(contentLine.text).length;
+		const action = new vscode.CodeAction(
+			`Convert \`${header.type}\` to \`${replacement}\``,
+			vscode.CodeActionKind.RefactorRewrite,
+		);
+		action.edit = new vscode.WorkspaceEdit();
+		action.edit.replace(
+			document.uri,
+			new vscode.Range(
+				contentLine.line,
+				character,
+				contentLine.line,
+				character + header.type.length,
+			),
+			replacement,
+		);
+		return [action];
+	}
+}
+
+/**
+ * Column ranges of flowchart shape and edge label text that contains characters
+ * Mermaid only accepts inside quotes, such as `A[Save (draft)]`.
+ */
+function findUnquotedLabels(
+	text: string,
+): Array<{ start: number; end: number }> {
+	const labels: Array<{ start: number; end: number }> = [];
+	LABEL_START.lastIndex = 0;
+	let match: RegExpExecArray | null = LABEL_START.exec(text);
+	while (match !== null) {
+		let start: number;
+		let end: number;
+		if (match[0] === '|') {
+			start = match.index + 1;
+			const close = text.indexOf('|', start);
+			end = close < 0 ? text.length : close;
+			LABEL_START.lastIndex = end + 1;
+		} else {
+			const open = match.index + match[1].length;
+			const close =
+				match[2] === '>'
+					? text.indexOf(']', open) + 1 || text.length
+					: findClosingBracket(text, open, text.length);
+			start = open + match[2].length;
+			end = close - (match[2] === '>' ? 1 : match[2].length);
+			LABEL_START.lastIndex = close;
+		}
+
+		const label = text.slice(start, end);
+		const trimmed = label.trim();
+		if (
+			trimmed &&
+			!trimmed.startsWith('"') &&
+			SPECIAL_LABEL_CHARS.test(trimmed) &&
+			end > start
+		) {
+			const offset = start + label.indexOf(trimmed);
+			labels.push({ start: offset, end: offset + trimmed.length });
+		}
+		match = LABEL_START.exec(text);
+	}
+	return labels;
+}
+
+function guessDiagramHeader(code: string): string {
+	if (/[|}][|o]--|[|}][|o]\.\./.test(code)) {
+		return 'erDiagram';
+	}
+	if (/<\|--|\.\.\|>|^\s*class\s+\w+\s*\{/m.test(code)) {
+		return 'classDiagram';
+	}
+	if (/\[\*\]/.test(code)) {
+		return 'stateDiagram-v2';
+	}
+	if (/->>|-->>|^\s*participant\s/m.test(code)) {
+		return 'sequenceDiagram';
+	}
+	return 'flowchart TD';
+}
+
+function editDistance(a: string, b: string): number {
+	const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		let diagonal = previous[0];
+		previous[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const above = previous[j];
+			previous[j] = Math.min(
+				previous[j] + 1,
+				previous[j - 1] + 1,
+				diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+			diagonal = above;
+		}
+	}
+	return previous[b.length];
+}
+
+function leadingWhitespace(text: string): string {
+	return text.slice(0, text.length - text.trimStart().length);
+}
+
+// Blockquote markers and list indentation that a new line in the fence needs
+function linePrefix(
+	document: vscode.TextDocument,
+	contentLine: MermaidBlockLine,
+): string {
+	return document.lineAt(contentLine.line).text.slice(0, contentLine.character);
+}
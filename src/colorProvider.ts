@@ -0,0 +1,513 @@
+import * as vscode from 'vscode';
+import { getMermaidBlocks } from './mermaidBlocks';
+import { Logger } from './util/logger';
+
+type ColorMatch = {
+	start: number;
+	end: number;
+	color: vscode.Color;
+};
+
+// The ID list is followed by the style properties
+const STYLE_STATEMENT = /^\s*(?:style|classDef|linkStyle)\s+\S+\s+/;
+const HEX_COLOR = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})(?![\w-])/gi;
+const FUNCTION_COLOR = /\b(rgba?|hsla?)\(([^()]*)\)/gi;
+const WORD = /(?<![\w#-])[a-z]+(?![\w(-])/gi;
+
+// CSS named colours, as understood by Mermaid's renderer
+const NAMED_COLORS: Record<string, string> = {
+	aliceblue: 'f0f8ff',
+	antiquewhite: 'faebd7',
+	aqua: '00ffff',
+	aquamarine: '7fffd4',
+	azure: 'f0ffff',
+	beige: 'f5f5dc',
+	bisque: 'ffe4c4',
+	black: '000000',
+	blanchedalmond: 'ffebcd',
+	blue: '0000ff',
+	blueviolet: '8a2be2',
+	brown: 'a52a2a',
+	burlywood: 'deb887',
+	cadetblue: '5f9ea0',
+	chartreuse: '7fff00',
+	chocolate: 'd2691e',
+	coral: 'ff7f50',
+	cornflowerblue: '6495ed',
+	cornsilk: 'fff8dc',
+	crimson: 'dc143c',
+	cyan: '00ffff',
+	darkblue: '00008b',
+	darkcyan: '008b8b',
+	darkgoldenrod: 'b8860b',
+	darkgray: 'a9a9a9',
+	darkgreen: '006400',
+	darkgrey: 'a9a9a9',
+	darkkhaki: 'bdb76b',
+	darkmagenta: '8b008b',
+	darkolivegreen: '556b2f',
+	darkorange: 'ff8c00',
+	darkorchid: '9932cc',
+	darkred: '8b0000',
+	darksalmon: 'e9967a',
+	darkseagreen: '8fbc8f',
+	darkslateblue: '483d8b',
+	darkslategray: '2f4f4f',
+	darkslategrey: '2f4f4f',
+	darkturquoise: '00ced1',
+	darkviolet: '9400d3',
+	deeppink: 'ff1493',
+	deepskyblue: '00bfff',
+	dimgray: '696969',
+	dimgrey: '696969',
+	dodgerblue: '1e90ff',
+	firebrick: 'b22222',
+	floralwhite: 'fffaf0',
+	forestgreen: '228b22',
+	fuchsia: 'ff00ff',
+	gainsboro: 'dcdcdc',
+	ghostwhite: 'f8f8ff',
+	gold: 'ffd700',
+	goldenrod: 'daa520',
+	gray: '808080',
+	green: '008000',
+	greenyellow: 'adff2f',
+	grey: '808080',
+	honeydew: 'f0fff0',
+	hotpink: 'ff69b4',
+	indianred: 'cd5c5c',
+	indigo: '4b0082',
+	ivory: 'fffff0',
+	khaki: 'f0e68c',
+	lavender: 'e6e6fa',
+	lavenderblush: 'fff0f5',
+	lawngreen: '7cfc00',
+	lemonchiffon: 'fffacd',
+	lightblue: 'add8e6',
+	lightcoral: 'f08080',
+	lightcyan: 'e0ffff',
+	lightgoldenrodyellow: 'fafad2',
+	lightgray: 'd3d3d3',
+	lightgreen: '90ee90',
+	lightgrey: 'd3d3d3',
+	lightpink: 'ffb6c1',
+	lightsalmon: 'ffa07a',
+	lightseagreen: '20b2aa',
+	lightskyblue: '87cefa',
+	lightslategray: '778899',
+	lightslategrey: '778899',
+	lightsteelblue: 'b0c4de',
+	lightyellow: 'ffffe0',
+	lime: '00ff00',
+	limegreen: '32cd32',
+	linen: 'faf0e6',
+	magenta: 'ff00ff',
+	maroon: '800000',
+	mediumaquamarine: '66cdaa',
+	mediumblue: '0000cd',
+	mediumorchid: 'ba55d3',
+	mediumpurple: '9370db',
+	mediumseagreen: '3cb371',
+	mediumslateblue: '7b68ee',
+	mediumspringgreen: '00fa9a',
+	mediumturquoise: '48d1cc',
+	mediumvioletred: 'c71585',
+	midnightblue: '191970',
+	mintcream: 'f5fffa',
+	mistyrose: 'ffe4e1',
+	moccasin: 'ffe4b5',
+	navajowhite: 'ffdead',
+	navy: '000080',
+	oldlace: 'fdf5e6',
+	olive: '808000',
+	olivedrab: '6b8e23',
+	orange: 'ffa500',
+	orangered: 'ff4500',
+	orchid: 'da70d6',
+	palegoldenrod: 'eee8aa',
+	palegreen: '98fb98',
+	paleturquoise: 'afeeee',
+	palevioletred: 'db7093',
+	papayawhip: 'ffefd5',
+	peachpuff: 'ffdab9',
+	peru: 'cd853f',
+	pink: 'ffc0cb',
+	plum: 'dda0dd',
+	powderblue: 'b0e0e6',
+	purple: '800080',
+	rebeccapurple: '663399',
+	red: 'ff0000',
+	rosybrown: 'bc8f8f',
+	royalblue: '4169e1',
+	saddlebrown: '8b4513',
+	salmon: 'fa8072',
+	sandybrown: 'f4a460',
+	seagreen: '2e8b57',
+	seashell: 'fff5ee',
+	sienna: 'a0522d',
+	silver: 'c0c0c0',
+	skyblue: '87ceeb',
+	slateblue: '6a5acd',
+	slategray: '708090',
+	slategrey: '708090',
+	snow: 'fffafa',
+	springgreen: '00ff7f',
+	steelblue: '4682b4',
+	tan: 'd2b48c',
+	teal: '008080',
+	thistle: 'd8bfd8',
+	tomato: 'ff6347',
+	turquoise: '40e0d0',
+	violet: 'ee82ee',
+	wheat: 'f5deb3',
+	white: 'ffffff',
+	whitesmoke: 'f5f5f5',
+	yellow: 'ffff00',
+	yellowgreen: '9acd32',
+};
+
+/**
+ * Colour swatches and the colour picker for `style`, `classDef` and `linkStyle`
+ * properties and `%%{init}%%` directives. A picked colour is written back in the
+ * notation it was written in (hex, `rgb()`, `hsl()` or a colour name).
+ */
+export class MermaidColorProvider implements vscode.DocumentColorProvider {
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideDocumentColors(
+		document: vscode.TextDocument,
+		token: vscode.CancellationToken,
+	): vscode.ProviderResult<vscode.ColorInformation[]> {
+		try {
+			const colors: vscode.ColorInformation[] = [];
+			for (const block of getMermaidBlocks(document)) {
+				if (token.isCancellationRequested) {
+					return [];
+				}
+
+				let inDirective = false;
+				for (const { line, character, text } of block.contentLines) {
+					const statement = STYLE_STATEMENT.exec(text);
+					let matches: ColorMatch[] = [];
+					if (inDirective || text.trimStart().startsWith('%%{')) {
+						// Directives are JSON, so colour names only count as whole strings
+						matches = findColors(text, 0, true);
+						inDirective = !text.includes('}%%');
+					} else if (statement) {
+						matches = findColors(text, statement[0].length, false);
+					}
+
+					for (const match of matches) {
+						colors.push(
+							new vscode.ColorInformation(
+								new vscode.Range(
+									line,
+									character + match.start,
+									line,
+									character + match.end,
+								),
+								match.color,
+							),
+						);
+					}
+				}
+			}
+			return colors;
+		} catch (error) {
+			this.logger.logDebug('ColorProvider', 'Failed to find colours', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return [];
+		}
+	}
+
+	provideColorPresentations(
+		color: vscode.Color,
+		context: { document: vscode.TextDocument; range: vscode.Range },
+	): vscode.ProviderResult<vscode.ColorPresentation[]> {
+		const original = context.document.getText(context.range);
+		const hex = formatHex(color, original);
+		const rgb = formatRgb(color, original);
+		const hsl = formatHsl(color, original);
+		const name = formatName(color);
+
+		// The first presentation is the one written to the document
+		let labels: string[];
+		if (/^#/.test(original)) {
+			labels = [hex, rgb, hsl];
+		} else if (/^rgb/i.test(original)) {
+			labels = [rgb, hex, hsl];
+		} else if (/^hsl/i.test(original)) {
+			labels = [hsl, hex, rgb];
+		} else {
+			labels = [name ?? hex, rgb, hsl];
+		}
+		if (name && !labels.includes(name)) {
+			labels.push(name);
+		}
+		return labels.map((label) => new vscode.ColorPresentation(label));
+	}
+}
+
+/**
+ * Colours on a line from `from` onwards. Colour names are only read as values,
+ * not as property names or node IDs, and in directives only as quoted strings.
+ */
+function findColors(
+	text: string,
+	from: number,
+	quotedNames: boolean,
+): ColorMatch[] {
+	const matches: ColorMatch[] = [];
+	const comment = text.indexOf('%%', from);
+	const end =
+		comment >= 0 && !text.trimStart().startsWith('%%{') ? comment : text.length;
+	const scanned = text.slice(0, end);
+
+	const add = (start: number, value: string) => {
+		const color = parseColor(value);
+		if (
+			color &&
+			!matches.some(
+				(match) => start < match.end && start + value.length > match.start,
+			)
+		) {
+			matches.push({ start, end: start + value.length, color });
+		}
+	};
+
+	for (const pattern of [HEX_COLOR, FUNCTION_COLOR, WORD]) {
+		for (const match of scanned.matchAll(pattern)) {
+			if (match.index < from) {
+				continue;
+			}
+			if (pattern === WORD) {
+				const before = scanned.slice(0, match.index);
+				const after = scanned.slice(match.index + match[0].length);
+				if (
+					quotedNames
+						? !/["']$/.test(before) || !/^["']/.test(after)
+						: /^\s*:/.test(after)
+				) {
+					continue;
+				}
+			}
+			add(match.index, match[0]);
+		}
+	}
+	return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Whether `word` is a CSS colour name, such as the background of a sequence box.
+ */
+export function isNamedColor(word: string): boolean {
+	// Not `in`, which would also accept `constructor` and other Object members
+	return typeof NAMED_COLORS[word.toLowerCase()] === 'string';
+}
+
+function parseColor(value: string): vscode.Color | undefined {
+	const lower = value.toLowerCase();
+	if (lower in NAMED_COLORS) {
+		return parseColor(`#${NAMED_COLORS[lower]}`);
+	}
+
+	if (lower.startsWith('#')) {
+		let digits = lower.slice(1);
+		if (digits.length <= 4) {
+			digits = digits.replace(/./g, '$&$&');
+		}
+		const channels = digits.match(/../g)?.map((pair) => parseInt(pair, 16));
+		if (!channels || channels.some(Number.isNaN)) {
+			return undefined;
+		}
+		return new vscode.Color(
+			channels[0] / 255,
+			channels[1] / 255,
+			channels[2] / 255,
+			channels.length > 3 ? channels[3] / 255 : 1,
+		);
+	}
+
+	const fn = /^(rgba?|hsla?)\(([^()]*)\)$/.exec(lower);
+	if (!fn) {
+		return undefined;
+	}
+	const parts = fn[2].trim().split(/\s*[,/]\s*|\s+/);
+	if (parts.length < 3 || parts.length > 4) {
+		return undefined;
+	}
+	const alpha = parts.length === 4 ? parseChannel(parts[3], 1) : 1;
+
+	if (fn[1].startsWith('rgb')) {
+		const [r, g, b] = parts.slice(0, 3).map((part) => parseChannel(part, 255));
+		if ([r, g, b, alpha].some((channel) => channel === undefined)) {
+			return undefined;
+		}
+		return new vscode.Color(
+			clamp(r as number),
+			clamp(g as number),
+			clamp(b as number),
+			clamp(alpha as number),
+		);
+	}
+
+	const hue = Number.parseFloat(parts[0].replace(/deg$/, ''));
+	const saturation = parseChannel(parts[1], 100);
+	const lightness = parseChannel(parts[2], 100);
+	if (
+		Number.isNaN(hue) ||
+		saturation === undefined ||
+		lightness === undefined ||
+		alpha === undefined
+	) {
+		return undefined;
+	}
+	const [r, g, b] = hslToRgb(
+		(((hue % 360) + 360) % 360) / 360,
+		clamp(saturation),
+		clamp(lightness),
+	);
+	return new vscode.Color(r, g, b, clamp(alpha));
+}
+
+// A channel as a fraction of its full value, given as a number or percentage
+function parseChannel(value: string, max: number): number | undefined {
+	const number = Number.parseFloat(value);
+	if (Number.isNaN(number)) {
+		return undefined;
+	}
+	return value.endsWith('%') ? number / 100 : number / max;
+}
+
+function clamp(value: number): number {
+	return Math.min(Math.max(value, 0), 1);
+}
+
+function formatHex(color: vscode.Color, original: string): string {
+	const channels = [color.red, color.green, color.blue];
+	// Keep an alpha channel the original had, and add one when it is needed
+	if (color.alpha < 1 || /^#(?:[0-9a-f]{4}|[0-9a-f]{8})$/i.test(original)) {
+		channels.push(color.alpha);
+	}
+	const pairs = channels.map((channel) =>
+		Math.round(channel * 255)
+			.toString(16)
+			.padStart(2, '0'),
+	);
+	// Short form when the original was short and the colour allows it
+	const short =
+		/^#[0-9a-f]{3,4}$/i.test(original) &&
+		pairs.every((pair) => pair[0] === pair[1]);
+	const hex = `#${pairs.map((pair) => (short ? pair[0] : pair)).join('')}`;
+	return /[A-F]/.test(original) ? hex.toUpperCase() : hex;
+}
+
+function formatRgb(color: vscode.Color, original: string): string {
+	const channels = [color.red, color.green, color.blue].map((channel) =>
+		String(Math.round(channel * 255)),
+	);
+	return formatFunction('rgb', channels, color.alpha, original);
+}
+
+function formatHsl(color: vscode.Color, original: string): string {
+	const [h, s, l] = rgbToHsl(color.red, color.green, color.blue);
+	return formatFunction(
+		'hsl',
+		[
+			`${Math.round(h * 360)}${/^hsla?\(\s*[\d.]+deg/i.test(original) ? 'deg' : ''}`,
+			`${Math.round(s * 100)}%`,
+			`${Math.round(l * 100)}%`,
+		],
+		color.alpha,
+		original,
+	);
+}
+
+// Follows the original's `rgba(`/`rgb(` prefix and separators where it has them
+function formatFunction(
+	name: 'rgb' | 'hsl',
+	channels: string[],
+	alpha: number,
+	original: string,
+): string {
+	const inner = /^\w+\((.*)\)$/.exec(original)?.[1] ?? '';
+	const separator = inner.includes(',')
+		? /,\s/.test(inner)
+			? ', '
+			: ','
+		: inner.trim()
+			? ' '
+			: ', ';
+	const hasAlphaName = new RegExp(`^${name}a\\(`, 'i').test(original);
+	const values = [...channels];
+	if (alpha < 1 || hasAlphaName) {
+		values.push(String(Number(alpha.toFixed(2))));
+	}
+	const prefix =
+		hasAlphaName || (alpha < 1 && separator !== ' ') ? `${name}a` : name;
+	if (separator === ' ' && values.length > 3) {
+		return `${prefix}(${values.slice(0, 3).join(' ')} / ${values[3]})`;
+	}
+	return `${prefix}(${values.join(separator)})`;
+}
+
+function formatName(color: vscode.Color): string | undefined {
+	if (color.alpha < 1) {
+		return undefined;
+	}
+	const hex = formatHex(color, '').slice(1);
+	return Object.keys(NAMED_COLORS).find((name) => NAMED_COLORS[name] === hex);
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+	if (s === 0) {
+		return [l, l, l];
+	}
+	const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+	const p = 2 * l - q;
+	const channel = (offset: number) => {
+		let t = h + offset;
+		if (t < 0) {
+			t += 1;
+		}
+		if (t > 1) {
+			t -= 1;
+		}
+		if (t < 1 / 6) {
+			return p + (q - p) * 6 * t;
+		}
+		if (t < 1 / 2) {
+			return q;
+		}
+		if (t < 2 / 3) {
+			return p + (q - p) * (2 / 3 - t) * 6;
+		}
+		return p;
+	};
+	return [channel(1 / 3), channel(0), channel(-1 / 3)];
+}
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	const l = (max + min) / 2;
+	if (max === min) {
+		return [0, 0, l];
+	}
+	const d = max - min;
+	const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+	let h: number;
+	if (max === r) {
+		h = (g - b) / d + (g < b ? 6 : 0);
+	} else if (max === g) {
+		h = (b - r) / d + 2;
+	} else {
+		h = (r - g) / d + 4;
+	}
+	return [h / 6, s, l];
+}
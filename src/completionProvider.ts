@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import {
+	type DiagramFamily,
+	getDiagramFamily,
+	getIdentifierTokens,
+} from './diagramModel';
+import { findMermaidBlockAtLine, type MermaidBlock } from './mermaidBlocks';
+import {
+	DIAGRAM_TYPES,
+	findDiagramHeader,
+	getDiagramKeywords,
+} from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+type ArrowForm = {
+	arrow: string;
+	description: string;
+};
+
+const ARROW_FORMS: Record<DiagramFamily, ArrowForm[]> = {
+	flowchart: [
+		{ arrow: '-->', description: 'Arrow' },
+		{ arrow: '---', description: 'Open link' },
+		{ arrow: '-.->', description: 'Dotted arrow' },
+		{ arrow: '==>', description: 'Thick arrow' },
+		{ arrow: '--o', description: 'Circle edge' },
+		{ arrow: '--x', description: 'Cross edge' },
+		{ arrow: '<-->', description: 'Bidirectional arrow' },
+		{ arrow: '-->|text|', description: 'Arrow with label' },
+		{ arrow: '~~~', description: 'Invisible link' },
+	],
+	sequence: [
+		{ arrow: '->>', description: 'Solid line with arrowhead' },
+		{ arrow: '-->>', description: 'Dotted line with arrowhead' },
+		{ arrow: '->', description: 'Solid line without arrow' },
+		{ arrow: '-->', description: 'Dotted line without arrow' },
+		{ arrow: '-x', description: 'Solid line with cross' },
+		{ arrow: '--x', description: 'Dotted line with cross' },
+		{ arrow: '-)', description: 'Solid async arrow' },
+		{ arrow: '--)', description: 'Dotted async arrow' },
+		{ arrow: '<<->>', description: 'Bidirectional solid arrow' },
+	],
+	class: [
+		{ arrow: '<|--', description: 'Inheritance' },
+		{ arrow: '*--', description: 'Composition' },
+		{ arrow: 'o--', description: 'Aggregation' },
+		{ arrow: '-->', description: 'Association' },
+		{ arrow: '--', description: 'Solid link' },
+		{ arrow: '..>', description: 'Dependency' },
+		{ arrow: '..|>', description: 'Realization' },
+		{ arrow: '..', description: 'Dashed link' },
+	],
+	state: [{ arrow: '-->', description: 'Transition' }],
+	er: [
+		{ arrow: '||--||', description: 'Exactly one to exactly one' },
+		{ arrow: '||--o{', description: 'Exactly one to zero or more' },
+		{ arrow: '||--|{', description: 'Exactly one to one or more' },
+		{ arrow: '|o--o{', description: 'Zero or one to zero or more' },
+		{ arrow: '}o--o{', description: 'Zero or more to zero or more' },
+		{ arrow: '||..o{', description: 'Non-identifying, one to zero or more' },
+	],
+};
+
+const IDENTIFIER_DETAIL: Record<DiagramFamily, string> = {
+	flowchart: 'node',
+	sequence: 'participant',
+	class: 'class',
+	state: 'state',
+	er: 'entity',
+};
+
+// Something already on the line, then optional whitespace and a partial arrow
+const ARROW_CONTEXT = /[\w\])}"]([ \t]*)([-.=<>|*~{}]*)$/;
+
+export class MermaidCompletionProvider
+	implements vscode.CompletionItemProvider
+{
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideCompletionItems(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.ProviderResult<vscode.CompletionItem[]> {
+		try {
+			// Empty diagrams too, so a new file or fence offers the diagram types
+			const block = findMermaidBlockAtLine(document, position.line, true);
+			const contentIndex =
+				block?.contentLines.findIndex(
+					(contentLine) => contentLine.line === position.line,
+				) ?? -1;
+			if (!block || contentIndex < 0) {
+				// Outside a diagram, or on a fence line
+				return undefined;
+			}
+
+			const contentLine = block.contentLines[contentIndex];
+			const before = document
+				.lineAt(position.line)
+				.text.slice(contentLine.character, position.character);
+			const header = findDiagramHeader(
+				block.contentLines.map((line) => line.text),
+			);
+
+			if (!header || contentIndex <= header.line) {
+				return /^\s*[\w-]*$/.test(before) ? this.diagramTypeItems() : undefined;
+			}
+
+			const family = getDiagramFamily(header.type);
+			const keywords = getDiagramKeywords(header.type);
+			const arrowContext = ARROW_CONTEXT.exec(before);
+			// Not after a keyword (`participant A`) or inside a label or message
+			if (
+				family &&
+				arrowContext &&
+				(arrowContext[1] || arrowContext[2]) &&
+				!keywords.includes(before.trim().split(/\s+/)[0]) &&
+				!before.includes(':')
+			) {
+				const range = new vscode.Range(
+					position.translate(0, -arrowContext[2].length),
+					position,
+				);
+				return this.arrowItems(family, range);
+			}
+
+			const items: vscode.CompletionItem[] = [];
+			if (/^\s*[\w-]*$/.test(before)) {
+				items.push(...this.keywordItems(header.type, keywords));
+			}
+			if (family) {
+				items.push(...this.identifierItems(block, family, position));
+			}
+			return items;
+		} catch (error) {
+			this.logger.logDebug(
+				'CompletionProvider',
+				'Failed to compute completions',
+				{ error: error instanceof Error ? error.message : String(error) },
+			);
+			return undefined;
+		}
+	}
+
+	private diagramTypeItems(): vscode.CompletionItem[] {
+		return DIAGRAM_TYPES.map((type) => {
+			const item = new vscode.CompletionItem(
+				type,
+				vscode.CompletionItemKind.Module,
+			);
+			item.detail = 'Diagram type';
+			if (type === 'flowchart' || type === 'graph') {
+				item.insertText = new vscode.SnippetString(`${type} `).appendChoice([
+					'TD',
+					'LR',
+					'BT',
+					'RL',
+				]);
+			}
+			return item;
+		});
+	}
+
+	private keywordItems(
+		diagramType: string,
+		keywords: readonly string[],
+	): vscode.CompletionItem[] {
+		return keywords.map((keyword) => {
+			const item = new vscode.CompletionItem(
+				keyword,
+				vscode.CompletionItemKind.Keyword,
+			);
+			item.detail = `${diagramType} keyword`;
+			return item;
+		});
+	}
+
+	private arrowItems(
+		family: DiagramFamily,
+		range: vscode.Range,
+	): vscode.CompletionItem[] {
+		return ARROW_FORMS[family].map(({ arrow, description }, index) => {
+			const item = new vscode.CompletionItem(
+				arrow,
+				vscode.CompletionItemKind.Operator,
+			);
+			item.detail = description;
+			item.range = range;
+			// Keep the listed order instead of sorting arrows alphabetically
+			item.sortText = String(index).padStart(2, '0');
+			const labelStart = arrow.indexOf('|text|');
+			if (labelStart >= 0) {
+				item.insertText = new vscode.SnippetString(
+					arrow.slice(0, labelStart + 1),
+				)
+					.appendPlaceholder('text')
+					.appendText('| ');
+			}
+			return item;
+		});
+	}
+
+	private identifierItems(
+		block: MermaidBlock,
+		family: DiagramFamily,
+		position: vscode.Position,
+	): vscode.CompletionItem[] {
+		const seen = new Set<string>();
+		const items: vscode.CompletionItem[] = [];
+		for (const token of getIdentifierTokens(block)) {
+			// Skip the word being typed, which the model also sees as an identifier
+			const isAtCursor =
+				token.line === position.line &&
+				position.character >= token.character &&
+				position.character <= token.character + token.length;
+			const key = `${token.kind}:${token.name}`;
+			if (isAtCursor || seen.has(key)) {
+				continue;
+			}
+			seen.add(key);
+
+			const item = new vscode.CompletionItem(
+				token.name,
+				token.kind === 'class'
+					? vscode.CompletionItemKind.Class
+					: vscode.CompletionItemKind.Variable,
+			);
+			item.detail =
+				token.kind === 'class' ? 'style class' : IDENTIFIER_DETAIL[family];
+			items.push(item);
+		}
+		return items;
+	}
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { findReservedEndIds } from './diagramModel';
+import {
+	getMermaidBlocks,
+	hashDiagram,
+	type MermaidBlock,
+} from './mermaidBlocks';
+import { DIAGRAM_TYPES, findDiagramHeader } from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+export const DIAGNOSTIC_SOURCE = 'Mermaid';
+
+type RenderError = {
+	line: number | null;
+	message: string;
+};
+
+type SourceIssue = {
+	// Zero-based line within the diagram source
+	line: number;
+	message: string;
+	code: string;
+};
+
+const BLOCK_CLOSER = /^end\s*;?$/;
+// Keywords that open an `end` block in each diagram type whose blocks are checked.
+// Only the keywords of the diagram's own type count, so a flowchart node named
+// `rect` or `loop` is not taken for a sequence block.
+const BLOCK_OPENERS: Readonly<Record<string, RegExp>> = {
+	flowchart: /^(subgraph)\b/,
+	graph: /^(subgraph)\b/,
+	sequenceDiagram: /^(box|alt|loop|opt|par|rect|critical|break)\b/,
+};
+
+/**
+ * Cheap structural checks that run without a preview: a known diagram type header,
+ * balanced `end` blocks and `end` used as a node ID. Full syntax errors come from
+ * the webview renderer.
+ */
+function validateMermaidSource(code: string): SourceIssue[] {
+	const lines = code.split(/\r?\n/);
+	const header = findDiagramHeader(lines);
+	if (!header) {
+		return [];
+	}
+
+	if (!DIAGRAM_TYPES.includes(header.type)) {
+		return [
+			{
+				line: header.line,
+				message: `Unknown Mermaid diagram type "${header.type}".`,
+				code: 'unknown-diagram-type',
+			},
+		];
+	}
+
+	const blockOpener = BLOCK_OPENERS[header.type];
+	if (!blockOpener) {
+		return [];
+	}
+
+	const issues: SourceIssue[] = [];
+	const stack: Array<{ keyword: string; line: number }> = [];
+	for (let i = header.line + 1; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (
+			header.type !== 'sequenceDiagram' &&
+			findReservedEndIds(lines[i]).length > 0
+		) {
+			issues.push({
+				line: i,
+				message:
+					'`end` is reserved in flowcharts and cannot be a node ID; use `End` or `END` instead.',
+				code: 'reserved-end',
+			});
+			continue;
+		}
+		const opener = blockOpener.exec(trimmed);
+		if (opener) {
+			stack.push({ keyword: opener[1], line: i });
+		} else if (BLOCK_CLOSER.test(trimmed)) {
+			if (!stack.pop()) {
+				issues.push({
+					line: i,
+					message: '`end` has no matching block to close.',
+					code: 'unexpected-end',
+				});
+			}
+		}
+	}
+
+	for (const open of stack) {
+		issues.push({
+			line: open.line,
+			message: `\`${open.keyword}\` block is missing a closing \`end\`.`,
+			code: 'unclosed-block',
+		});
+	}
+
+	return issues;
+}
+
+export class MermaidDiagnostics implements vscode.Disposable {
+	private static _instance: MermaidDiagnostics | undefined;
+	private readonly _collection: vscode.DiagnosticCollection;
+	private readonly _logger: Logger;
+	// Render errors reported by preview webviews, keyed by document then diagram hash
+	private readonly _renderErrors = new Map<string, Map<string, RenderError>>();
+
+	private constructor() {
+		this._collection = vscode.languages.createDiagnosticCollection('mermaid');
+		this._logger = Logger.instance;
+	}
+
+	static get instance(): MermaidDiagnostics {
+		if (!MermaidDiagnostics._instance) {
+			MermaidDiagnostics._instance = new MermaidDiagnostics();
+		}
+		return MermaidDiagnostics._instance;
+	}
+
+	public update(document: vscode.TextDocument) {
+		if (
+			document.languageId !== 'markdown' &&
+			document.languageId !== 'mermaid'
+		) {
+			return;
+		}
+
+		const key = document.uri.toString();
+		const blocks = getMermaidBlocks(document);
+		const renderErrors = this._renderErrors.get(key);
+		const liveHashes = new Set<string>();
+		const diagnostics: vscode.Diagnostic[] = [];
+
+		for (const block of blocks) {
+			for (const issue of validateMermaidSource(block.code)) {
+				diagnostics.push(
+					this._createDiagnostic(
+						document,
+						block,
+						issue.line,
+						issue.message,
+						issue.code,
+					),
+				);
+			}
+
+			const hash = hashDiagram(block.code);
+			liveHashes.add(hash);
+			const renderError = renderErrors?.get(hash);
+			if (renderError) {
+				const line =
+					typeof renderError.line === 'number' ? renderError.line - 1 : null;
+				diagnostics.push(
+					this._createDiagnostic(
+						document,
+						block,
+						line,
+						renderError.message,
+						'render-error',
+					),
+				);
+			}
+		}
+
+		// Drop render errors for diagrams that were fixed or removed
+		if (renderErrors) {
+			for (const hash of renderErrors.keys()) {
+				if (!liveHashes.has(hash)) {
+					renderErrors.delete(hash);
+				}
+			}
+		}
+
+		this._collection.set(document.uri, diagnostics);
+	}
+
+	public reportRenderError(
+		document: vscode.TextDocument,
+		hash: string,
+		line: number | null,
+		message: string,
+	) {
+		const key = document.uri.toString();
+		let renderErrors = this._renderErrors.get(key);
+		if (!renderErrors) {
+			renderErrors = new Map();
+			this._renderErrors.set(key, renderErrors);
+		}
+		renderErrors.set(hash, { line, message });
+		this._logger.logDebug('Diagnostics', 'Recorded render error', {
+			document: key,
+			line,
+		});
+		this.update(document);
+	}
+
+	public clear(document: vscode.TextDocument) {
+		this._renderErrors.delete(document.uri.toString());
+		this._collection.delete(document.uri);
+	}
+
+	public dispose() {
+		this._renderErrors.clear();
+		this._collection.dispose();
+	}
+
+	private _createDiagnostic(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		relativeLine: number | null,
+		message: string,
+		code: string,
+	): vscode.Diagnostic {
+		// Without a line number the error is pinned to the start of the diagram
+		const firstCodeIndex = block.contentLines.findIndex(
+			(line) => line.line === block.codeStartLine,
+		);
+		const contentLine =
+			relativeLine === null
+				? undefined
+				: block.contentLines[
+						Math.min(
+							firstCodeIndex + relativeLine,
+							block.contentLines.length - 1,
+						)
+					];
+		const docLine = contentLine?.line ?? block.startLine;
+		const textLine = document.lineAt(docLine);
+		const startCharacter = contentLine
+			? contentLine.character +
+				(contentLine.text.length - contentLine.text.trimStart().length)
+			: textLine.firstNonWhitespaceCharacterIndex;
+		const range = new vscode.Range(
+			docLine,
+			startCharacter,
+			docLine,
+			textLine.text.length,
+		);
+
+		const diagnostic = new vscode.Diagnostic(
+			range,
+			message,
+			vscode.DiagnosticSeverity.Error,
+		);
+		diagnostic.source = DIAGNOSTIC_SOURCE;
+		diagnostic.code = code;
+		return diagnostic;
+	}
+}
@@ -0,0 +1,991 @@
+import type { MermaidBlock } from './mermaidBlocks';
+import { findDiagramHeader, getReservedWords } from './mermaidSyntax';
+
+export type DiagramFamily = 'flowchart' | 'sequence' | 'class' | 'state' | 'er';
+
+export type IdentifierKind = 'node' | 'class';
+
+// Shape text and descriptions, or text carried by a link or message
+export type LabelKind = 'label' | 'edgeLabel';
+
+export type LabelToken = {
+	kind: LabelKind;
+	line: number;
+	character: number;
+	length: number;
+};
+
+export type IdentifierToken = {
+	name: string;
+	kind: IdentifierKind;
+	// Document position of the identifier
+	line: number;
+	character: number;
+	length: number;
+	// True where the identifier is declared (shape, participant, state, entity...)
+	declares: boolean;
+};
+
+// A link between two nodes, read left to right as written
+export type DiagramEdge = {
+	from: string;
+	to: string;
+	// Text on the link, or the message or description after `:`
+	label?: string;
+	line: number;
+};
+
+export type NodeDetails = {
+	definition: IdentifierToken;
+	label?: string;
+	// Flowchart shape, or `participant`/`actor` in sequence diagrams
+	shape?: string;
+	classes: string[];
+	styles: string[];
+	incoming: DiagramEdge[];
+	outgoing: DiagramEdge[];
+};
+
+type LineToken = Omit<IdentifierToken, 'line' | 'character'> & {
+	start: number;
+};
+
+type TextRange = {
+	start: number;
+	end: number;
+};
+
+type LineLabel = TextRange & {
+	kind: LabelKind;
+};
+
+type LineScan = {
+	masked: string;
+	arrows: TextRange[];
+	labels: LineLabel[];
+};
+
+type LineContext = {
+	family: DiagramFamily;
+	reservedWords: ReadonlySet<string>;
+	bodyDepth: number;
+	inNote: boolean;
+};
+
+const FAMILIES: Record<string, DiagramFamily> = {
+	flowchart: 'flowchart',
+	graph: 'flowchart',
+	sequenceDiagram: 'sequence',
+	classDiagram: 'class',
+	'classDiagram-v2': 'class',
+	stateDiagram: 'state',
+	'stateDiagram-v2': 'state',
+	erDiagram: 'er',
+};
+
+// Like Mermaid, an `o` or `x` right after a flowchart link is always its
+// arrowhead, so `A--oB` is a circle-ended edge to `B`
+const ARROWS: Record<DiagramFamily, RegExp> = {
+	flowchart: /(?:(?<=^|\s)[ox])?<?(?:-{2,}|={2,}|-\.+-|~{3,})[>ox]?/g,
+	sequence: /<?<?-{1,2}(?:>>|>|x|\))[+-]?/g,
+	class: /(?:(?<=^|\s)[*o]|<\|?)?(?:--|\.\.)(?:\|?>|[*o](?=\s|$))?/g,
+	state: /-->/g,
+	er: /[|}o][|o]\s*(?:--|\.\.)\s*[|o][|{o]/g,
+};
+
+const IDENTIFIER = /\w+(?:-\w+)*/g;
+
+type DiagramModel = {
+	identifiers: IdentifierToken[];
+	labels: LabelToken[];
+	edges: DiagramEdge[];
+};
+
+const modelCache = new WeakMap<MermaidBlock, DiagramModel>();
+
+function blank(value: string): string {
+	return ' '.repeat(value.length);
+}
+
+/**
+ * Index just past the bracket that closes the one at `from`, skipping quoted
+ * text, or `end` when it is never closed.
+ */
+export function findClosingBracket(
+	text: string,
+	from: number,
+	end: number,
+): number {
+	let depth = 0;
+	for (let i = from; i < end; i++) {
+		const ch = text[i];
+		if (ch === '"') {
+			const close = text.indexOf('"', i + 1);
+			if (close < 0 || close >= end) {
+				return end;
+			}
+			i = close;
+		} else if (ch === '[' || ch === '(' || ch === '{') {
+			depth++;
+		} else if (ch === ']' || ch === ')' || ch === '}') {
+			depth--;
+			if (depth === 0) {
+				return i + 1;
+			}
+		}
+	}
+	return end;
+}
+
+/**
+ * Fills quoted strings, bracketed shape labels and `|edge labels|` with
+ * underscores, keeping their columns, so that arrow-like text inside them does
+ * not read as a link.
+ */
+function fillLabels(text: string): string {
+	let filled = '';
+	let i = 0;
+	while (i < text.length) {
+		const ch = text[i];
+		let stop = i + 1;
+		if (ch === '"' || ch === '|') {
+			const close = text.indexOf(ch, i + 1);
+			stop = close < 0 ? text.length : close + 1;
+		} else if (ch === '[' || ch === '(' || ch === '{') {
+			stop = findClosingBracket(text, i, text.length);
+		}
+		filled += stop > i + 1 ? '_'.repeat(stop - i) : ch;
+		i = stop;
+	}
+	return filled;
+}
+
+/**
+ * Replaces arrows, quoted strings, shape labels, edge labels and trailing
+ * descriptions with spaces so only identifiers remain at their original columns.
+ * Also reports where the arrows are, each together with any text it carries
+ * (`-- text -->`, `-->|text|`), leaving out arrow-like text inside labels.
+ */
+function scanLine(text: string, family: DiagramFamily): LineScan {
+	let masked = text;
+	const commentIndex = masked.indexOf('%%');
+	if (commentIndex >= 0) {
+		masked = masked.slice(0, commentIndex) + blank(masked.slice(commentIndex));
+	}
+
+	// Links carrying text, from the opening `--` to the closing arrow
+	const textLinks: TextRange[] = [];
+	const labelRanges: LineLabel[] = [];
+	if (family === 'flowchart') {
+		// Text on links: A-- label -->B, A-. label .->B, A== label ==>B. Matched
+		// with labels filled in, so arrows inside quotes or brackets are ignored
+		const filled = fillLabels(masked);
+		const chars = masked.split('');
+		for (const match of filled.matchAll(
+			/(?<=\w\s*)(--|==|-\.)(\s+[^\s>=.-][^>]*?\s+)(?=-{2,}|={2,}|\.-)/g,
+		)) {
+			const [whole, open, label] = match;
+			const offset = match.index;
+			const close = /^(?:-{2,}|={2,}|\.-+)[>ox]?/.exec(
+				filled.slice(offset + whole.length),
+			);
+			textLinks.push({
+				start: offset,
+				end: offset + whole.length + (close?.[0].length ?? 0),
+			});
+			const start = offset + open.length;
+			labelRanges.push({
+				kind: 'edgeLabel',
+				start,
+				end: start + label.length,
+			});
+			chars.fill(' ', start, start + label.length);
+		}
+		masked = chars.join('');
+	}
+	if (family === 'class') {
+		masked = masked.replace(/<<[^>]*>>|~[^~]*~/g, blank);
+	}
+	const arrows: TextRange[] = [];
+	for (const match of masked.matchAll(ARROWS[family])) {
+		const arrow = { start: match.index, end: match.index + match[0].length };
+		if (!textLinks.some((link) => overlaps(arrow, link))) {
+			arrows.push(arrow);
+		}
+	}
+	masked = masked.replace(ARROWS[family], blank);
+
+	const chars = masked.split('');
+	const labels: TextRange[] = [];
+	const pipeLabels: TextRange[] = [];
+	const blankRange = (from: number, to: number) => {
+		labels.push({ start: from, end: to });
+		for (let k = from; k < to; k++) {
+			chars[k] = ' ';
+		}
+	};
+
+	let i = 0;
+	while (i < masked.length) {
+		const ch = masked[i];
+		if (ch === '"' || (ch === '|' && family === 'flowchart')) {
+			const close = masked.indexOf(ch, i + 1);
+			const stop = close < 0 ? masked.length : close + 1;
+			if (ch === '|') {
+				pipeLabels.push({ start: i, end: stop });
+			}
+			labelRanges.push({
+				kind: ch === '|' ? 'edgeLabel' : 'label',
+				start: i,
+				end: stop,
+			});
+			blankRange(i, stop);
+			i = stop;
+		} else if (ch === '[' || ch === '(' || ch === '{') {
+			const stop = findClosingBracket(masked, i, masked.length);
+			labelRanges.push({ kind: 'label', start: i, end: stop });
+			blankRange(i, stop);
+			i = stop;
+		} else if (
+			ch === '>' &&
+			family === 'flowchart' &&
+			i > 0 &&
+			/\w/.test(masked[i - 1])
+		) {
+			const close = masked.indexOf(']', i + 1);
+			const stop = close < 0 ? masked.length : close + 1;
+			labelRanges.push({ kind: 'label', start: i, end: stop });
+			blankRange(i, stop);
+			i = stop;
+		} else if (ch === ':') {
+			if (masked.startsWith(':::', i)) {
+				i += 3;
+				continue;
+			}
+			// Messages and transition labels follow a link; otherwise a description
+			labelRanges.push({
+				kind: arrows.length || textLinks.length ? 'edgeLabel' : 'label',
+				start: i + 1,
+				end: commentIndex >= 0 ? commentIndex : masked.length,
+			});
+			blankRange(i, masked.length);
+			break;
+		} else {
+			i++;
+		}
+	}
+
+	const links = [
+		...arrows.filter(
+			(arrow) => !labels.some((label) => overlaps(arrow, label)),
+		),
+		...textLinks,
+	].sort((a, b) => a.start - b.start);
+	// `-->|text|` reads as one link
+	for (const link of links) {
+		const label = pipeLabels.find(
+			(candidate) =>
+				candidate.start >= link.end &&
+				!text.slice(link.end, candidate.start).trim(),
+		);
+		if (label) {
+			link.end = label.end;
+		}
+	}
+
+	return {
+		masked: chars.join(''),
+		arrows: links,
+		labels: labelRanges
+			.map((label) => ({ ...innerText(text, label), kind: label.kind }))
+			// `[*]` is a state diagram start or end, not a label
+			.filter(
+				(label) =>
+					label.end > label.start && text.slice(label.start, label.end) !== '*',
+			),
+	};
+}
+
+// Label text without its shape delimiters, quotes and surrounding spaces
+function innerText(text: string, range: TextRange): TextRange {
+	let { start, end } = range;
+	while (start < end && /[\s[({/\\>|"`]/.test(text[start])) {
+		start++;
+	}
+	while (end > start && /[\s\])}/\\|"`]/.test(text[end - 1])) {
+		end--;
+	}
+	return { start, end };
+}
+
+function overlaps(a: TextRange, b: TextRange): boolean {
+	return a.start < b.end && a.end > b.start;
+}
+
+function nextNonSpace(text: string, from: number): string {
+	const rest = text.slice(from).trimStart();
+	return rest.slice(0, 2);
+}
+
+function scanIdentifiers(
+	text: string,
+	masked: string,
+	family: DiagramFamily,
+	reservedWords: ReadonlySet<string>,
+): LineToken[] {
+	const tokens: LineToken[] = [];
+	IDENTIFIER.lastIndex = 0;
+	let match: RegExpExecArray | null = IDENTIFIER.exec(masked);
+	while (match !== null) {
+		const name = match[0];
+		const start = match.index;
+		if (!reservedWords.has(name) && !/^\d+$/.test(name)) {
+			const isClassRef = masked.slice(Math.max(0, start - 3), start) === ':::';
+			const next = nextNonSpace(text, start + name.length);
+			const declares =
+				!isClassRef &&
+				(/^(\[|\(|\{|@\{)/.test(next) ||
+					(family === 'flowchart' && text[start + name.length] === '>'));
+			tokens.push({
+				name,
+				kind: isClassRef ? 'class' : 'node',
+				start,
+				length: name.length,
+				declares,
+			});
+		}
+		match = IDENTIFIER.exec(masked);
+	}
+	return tokens;
+}
+
+function listTokens(
+	listStart: number,
+	list: string,
+	kind: IdentifierKind,
+	declares: boolean,
+): LineToken[] {
+	const tokens: LineToken[] = [];
+	let offset = 0;
+	for (const part of list.split(',')) {
+		const trimmed = part.trim();
+		if (trimmed) {
+			tokens.push({
+				name: trimmed,
+				kind,
+				start: listStart + offset + part.indexOf(trimmed),
+				length: trimmed.length,
+				declares,
+			});
+		}
+		offset += part.length + 1;
+	}
+	return tokens;
+}
+
+// Statement regexes end with the captured list, so it starts where the match ends
+function groupStart(indent: number, statement: RegExpExecArray): number {
+	return indent + statement[0].length - statement[statement.length - 1].length;
+}
+
+function tokenizeLine(
+	text: string,
+	context: LineContext,
+	labels: LineLabel[],
+	links: TextRange[],
+): LineToken[] {
+	const trimmed = text.trim();
+	const indent = text.length - text.trimStart().length;
+	const { family } = context;
+
+	if (!trimmed || trimmed.startsWith('%%')) {
+		return [];
+	}
+
+	if (context.inNote) {
+		if (/^end\s+note$/.test(trimmed)) {
+			context.inNote = false;
+		}
+		return [];
+	}
+
+	if (context.bodyDepth > 0) {
+		if (trimmed.startsWith('}')) {
+			context.bodyDepth--;
+		}
+		return [];
+	}
+
+	let statement = /^style\s+([\w-]+)/.exec(trimmed);
+	if (statement) {
+		return listTokens(
+			groupStart(indent, statement),
+			statement[1],
+			'node',
+			false,
+		);
+	}
+
+	statement = /^classDef\s+([\w,-]+)/.exec(trimmed);
+	if (statement) {
+		return listTokens(
+			groupStart(indent, statement),
+			statement[1],
+			'class',
+			true,
+		);
+	}
+
+	statement = /^class\s+([\w,\s-]+?)(\s+([\w-]+))?\s*;?$/.exec(trimmed);
+	if (statement && family !== 'class') {
+		const listStart = indent + trimmed.indexOf(statement[1], 5);
+		const tokens = listTokens(listStart, statement[1], 'node', false);
+		if (statement[3]) {
+			tokens.push({
+				name: statement[3],
+				kind: 'class',
+				start: indent + trimmed.lastIndexOf(statement[3]),
+				length: statement[3].length,
+				declares: false,
+			});
+		}
+		return tokens;
+	}
+
+	statement = /^click\s+([\w-]+)/.exec(trimmed);
+	if (statement) {
+		return listTokens(
+			groupStart(indent, statement),
+			statement[1],
+			'node',
+			false,
+		);
+	}
+
+	if (
+		/^(linkStyle|direction|autonumber|title|accTitle|accDescr)\b/.test(trimmed)
+	) {
+		return [];
+	}
+
+	if (family === 'flowchart') {
+		statement = /^subgraph\s+([\w-]+)/.exec(trimmed);
+		if (statement) {
+			return listTokens(
+				groupStart(indent, statement),
+				statement[1],
+				'node',
+				true,
+			);
+		}
+		if (/^subgraph\b/.test(trimmed)) {
+			return [];
+		}
+	}
+
+	if (family === 'sequence') {
+		statement = /^((?:create\s+)?(?:participant|actor)\s+)([\w-]+)/.exec(
+			trimmed,
+		);
+		if (statement) {
+			return listTokens(
+				indent + statement[1].length,
+				statement[2],
+				'node',
+				true,
+			);
+		}
+		statement = /^((?:de)?activate\s+|destroy\s+)([\w-]+)/.exec(trimmed);
+		if (statement) {
+			return listTokens(
+				indent + statement[1].length,
+				statement[2],
+				'node',
+				false,
+			);
+		}
+		statement = /^(note\s+(?:left of|right of|over)\s+)([^:]+)/i.exec(trimmed);
+		if (statement) {
+			return listTokens(
+				indent + statement[1].length,
+				statement[2],
+				'node',
+				false,
+			);
+		}
+		if (
+			/^(box|rect|alt|else|opt|loop|par|and|critical|option|break|end)\b/.test(
+				trimmed,
+			)
+		) {
+			return [];
+		}
+	}
+
+	if (family === 'state') {
+		statement = /^(state\s+(?:"[^"]*"\s+as\s+)?)([\w-]+)/.exec(trimmed);
+		if (statement) {
+			return listTokens(
+				indent + statement[1].length,
+				statement[2],
+				'node',
+				true,
+			);
+		}
+		statement = /^(note\s+(?:left of|right of)\s+)([\w-]+)/.exec(trimmed);
+		if (statement) {
+			if (!trimmed.includes(':')) {
+				context.inNote = true;
+			}
+			return listTokens(
+				indent + statement[1].length,
+				statement[2],
+				'node',
+				false,
+			);
+		}
+	}
+
+	if (family === 'class') {
+		if (/^namespace\b/.test(trimmed)) {
+			return [];
+		}
+		statement = /^(class\s+)([\w-]+)/.exec(trimmed);
+		if (statement) {
+			if (trimmed.includes('{') && !trimmed.includes('}')) {
+				context.bodyDepth++;
+			}
+			return listTokens(
+				indent + statement[1].length,
+				statement[2],
+				'node',
+				true,
+			);
+		}
+	}
+
+	if (family === 'er') {
+		statement = /^([\w-]+)\s*(?:\[[^\]]*\]\s*)?\{/.exec(trimmed);
+		if (statement) {
+			if (!trimmed.includes('}')) {
+				context.bodyDepth++;
+			}
+			return listTokens(indent, statement[1], 'node', true);
+		}
+	}
+
+	const scan = scanLine(text, family);
+	labels.push(...scan.labels);
+	links.push(...scan.arrows);
+	return scanIdentifiers(text, scan.masked, family, context.reservedWords);
+}
+
+/**
+ * Edges on one line. Each link connects the nodes just before it to the nodes
+ * just after it, so chains (`A --> B --> C`) and groups (`A & B --> C`) expand
+ * into one edge per pair.
+ */
+function lineEdges(
+	text: string,
+	tokens: LineToken[],
+	links: TextRange[],
+	labels: LineLabel[],
+): Array<Omit<DiagramEdge, 'line'>> {
+	const edges: Array<Omit<DiagramEdge, 'line'>> = [];
+	const endpoints = (from: number, to: number): string[] => {
+		const names = tokens
+			.filter(
+				(token) =>
+					token.kind === 'node' && token.start >= from && token.start < to,
+			)
+			.map((token) => token.name);
+		// State diagram start and end points have no ID
+		if (!names.length && text.slice(from, to).trim() === '[*]') {
+			names.push('[*]');
+		}
+		return names;
+	};
+	const labelIn = (range: TextRange): string | undefined => {
+		const label = labels.find(
+			(candidate) =>
+				candidate.kind === 'edgeLabel' &&
+				candidate.start >= range.start &&
+				candidate.end <= range.end,
+		);
+		return label ? text.slice(label.start, label.end) : undefined;
+	};
+
+	links.forEach((link, index) => {
+		const sources = endpoints(index ? links[index - 1].end : 0, link.start);
+		const next = links[index + 1]?.start ?? text.length;
+		const targets = endpoints(link.end, next);
+		// Messages and transition labels follow the last link on the line
+		const label =
+			labelIn(link) ??
+			(index === links.length - 1
+				? labelIn({ start: link.end, end: text.length })
+				: undefined);
+		for (const from of sources) {
+			for (const to of targets) {
+				edges.push(label ? { from, to, label } : { from, to });
+			}
+		}
+	});
+	return edges;
+}
+
+/**
+ * Column ranges of the arrows on a diagram line, each including any edge text it
+ * carries. Arrow-like text inside labels, strings and comments is not included.
+ */
+export function findArrows(
+	text: string,
+	family: DiagramFamily,
+): Array<{ start: number; end: number }> {
+	return scanLine(text, family).arrows;
+}
+
+/**
+ * Columns where the reserved word `end` is used as a flowchart node ID, which
+ * Mermaid cannot parse. A line that only closes a subgraph has none.
+ */
+export function findReservedEndIds(text: string): number[] {
+	if (/^\s*end\s*;?\s*$/.test(text)) {
+		return [];
+	}
+	const masked = scanLine(text, 'flowchart').masked;
+	return [...masked.matchAll(/(?<![\w-])end(?![\w-])/g)].map(
+		(match) => match.index,
+	);
+}
+
+/**
+ * The family of a diagram type header, for diagram types with named nodes.
+ */
+export function getDiagramFamily(
+	diagramType: string,
+): DiagramFamily | undefined {
+	return FAMILIES[diagramType];
+}
+
+function getDiagramModel(block: MermaidBlock): DiagramModel {
+	const cached = modelCache.get(block);
+	if (cached) {
+		return cached;
+	}
+
+	const model: DiagramModel = { identifiers: [], labels: [], edges: [] };
+	const header = findDiagramHeader(
+		block.contentLines.map((contentLine) => contentLine.text),
+	);
+	const family = header ? FAMILIES[header.type] : undefined;
+
+	if (header && family) {
+		const context: LineContext = {
+			family,
+			reservedWords: getReservedWords(header.type),
+			bodyDepth: 0,
+			inNote: false,
+		};
+		for (const contentLine of block.contentLines.slice(header.line + 1)) {
+			const labels: LineLabel[] = [];
+			const links: TextRange[] = [];
+			const tokens = tokenizeLine(contentLine.text, context, labels, links);
+			for (const token of tokens) {
+				model.identifiers.push({
+					name: token.name,
+					kind: token.kind,
+					line: contentLine.line,
+					character: contentLine.character + token.start,
+					length: token.length,
+					declares: token.declares,
+				});
+			}
+			for (const label of labels) {
+				model.labels.push({
+					kind: label.kind,
+					line: contentLine.line,
+					character: contentLine.character + label.start,
+					length: label.end - label.start,
+				});
+			}
+			for (const edge of lineEdges(contentLine.text, tokens, links, labels)) {
+				model.edges.push({ ...edge, line: contentLine.line });
+			}
+		}
+	}
+
+	modelCache.set(block, model);
+	return model;
+}
+
+/**
+ * Identifier occurrences in a diagram, with document positions. Only diagram types
+ * with named nodes (flowchart, sequence, class, state and ER diagrams) are modelled.
+ */
+export function getIdentifierTokens(block: MermaidBlock): IdentifierToken[] {
+	return getDiagramModel(block).identifiers;
+}
+
+/**
+ * Shape labels, descriptions, link text and messages in a diagram, for the same
+ * diagram types as getIdentifierTokens.
+ */
+export function getLabelTokens(block: MermaidBlock): LabelToken[] {
+	return getDiagramModel(block).labels;
+}
+
+export function findIdentifierAt(
+	block: MermaidBlock,
+	line: number,
+	character: number,
+): IdentifierToken | undefined {
+	return getIdentifierTokens(block).find(
+		(token) =>
+			token.line === line &&
+			character >= token.character &&
+			character <= token.character + token.length,
+	);
+}
+
+export function findReferences(
+	block: MermaidBlock,
+	name: string,
+	kind: IdentifierKind = 'node',
+): IdentifierToken[] {
+	return getIdentifierTokens(block).filter(
+		(token) => token.name === name && token.kind === kind,
+	);
+}
+
+/**
+ * The first declaration of an identifier, falling back to its first use for
+ * implicitly declared nodes such as `A --> B`.
+ */
+export function findDefinition(
+	block: MermaidBlock,
+	name: string,
+	kind: IdentifierKind = 'node',
+): IdentifierToken | undefined {
+	const references = findReferences(block, name, kind);
+	return references.find((token) => token.declares) ?? references[0];
+}
+
+/**
+ * Document column where an identifier's declaration ends: after the shape and
+ * label for `A[Start]`, or at the end of the statement for declarations such as
+ * `participant A as Alice` or `state Idle {`.
+ */
+export function getDeclarationEnd(
+	block: MermaidBlock,
+	token: IdentifierToken,
+): number {
+	const tokenEnd = token.character + token.length;
+	const contentLine = block.contentLines.find(
+		(candidate) => candidate.line === token.line,
+	);
+	if (!contentLine || !token.declares) {
+		return tokenEnd;
+	}
+
+	const text = contentLine.text;
+	const end = tokenEnd - contentLine.character;
+	const shape = /^\s*(?:@\{|[[({>])/.exec(text.slice(end));
+	if (shape) {
+		const open = end + shape[0].length - 1;
+		const close =
+			text[open] === '>'
+				? text.indexOf(']', open) + 1 || text.length
+				: findClosingBracket(text, open, text.length);
+		return contentLine.character + close;
+	}
+	return contentLine.character + text.trimEnd().length;
+}
+
+/**
+ * What hovering a node shows: its label and shape from the declaration, the
+ * style classes and `style` lines applied to it, and the edges that touch it.
+ */
+export function getNodeDetails(
+	block: MermaidBlock,
+	name: string,
+): NodeDetails | undefined {
+	const definition = findDefinition(block, name);
+	if (!definition) {
+		return undefined;
+	}
+
+	const model = getDiagramModel(block);
+	const lines = new Map(
+		block.contentLines.map((contentLine) => [contentLine.line, contentLine]),
+	);
+	const family = getDiagramFamily(
+		findDiagramHeader(block.contentLines.map((contentLine) => contentLine.text))
+			?.type ?? '',
+	);
+	const details: NodeDetails = {
+		definition,
+		classes: [],
+		styles: [],
+		incoming: model.edges.filter((edge) => edge.to === name),
+		outgoing: model.edges.filter((edge) => edge.from === name),
+	};
+
+	const definitionLine = lines.get(definition.line);
+	if (definitionLine) {
+		const text = definitionLine.text;
+		const tokenEnd =
+			definition.character + definition.length - definitionLine.character;
+		if (family === 'flowchart') {
+			const shape = definition.declares
+				? /^\s*(@\{.*|[[({>].*)$/.exec(text.slice(tokenEnd))?.[1]
+				: undefined;
+			details.shape = shape ? flowchartShape(shape) : 'rectangle';
+			details.label = shape ? shapeLabel(block, definition) : undefined;
+		} else if (family === 'sequence') {
+			const statement = /^\s*(?:create\s+)?(participant|actor)\b/.exec(text);
+			details.shape = statement?.[1];
+			details.label = /^\s+as\s+(.+?)\s*$/.exec(text.slice(tokenEnd))?.[1];
+		} else if (family === 'state') {
+			details.label = /^\s*state\s+"([^"]*)"\s+as\s/.exec(text)?.[1];
+		}
+	}
+	if (family === 'state' && !details.label) {
+		// `Idle : Waiting for input` describes a state
+		const description = new RegExp(`^\\s*${name}\\s*:(.+)$`);
+		for (const contentLine of block.contentLines) {
+			const match = description.exec(contentLine.text);
+			if (match) {
+				details.label = match[1].trim();
+				break;
+			}
+		}
+	}
+
+	for (const token of model.identifiers) {
+		if (token.kind !== 'class' || token.declares) {
+			continue;
+		}
+		const contentLine = lines.get(token.line);
+		if (!contentLine) {
+			continue;
+		}
+		const sameLine = model.identifiers.filter(
+			(other) => other.line === token.line && other.kind === 'node',
+		);
+		// `class A,B highlight` applies to every node listed; `A:::highlight` to A
+		const targets = /^\s*class\s/.test(contentLine.text)
+			? sameLine
+			: sameLine.filter(
+					(other) => other.character + other.length + 3 === token.character,
+				);
+		if (
+			targets.some((other) => other.name === name) &&
+			!details.classes.includes(token.name)
+		) {
+			details.classes.push(token.name);
+		}
+	}
+
+	for (const token of findReferences(block, name)) {
+		const contentLine = lines.get(token.line);
+		const style = contentLine
+			? /^\s*style\s+[\w-]+\s+(.+?)\s*;?\s*$/.exec(contentLine.text)
+			: null;
+		if (style) {
+			details.styles.push(style[1]);
+		}
+	}
+
+	return details;
+}
+
+const FLOWCHART_SHAPES: Array<[string, string]> = [
+	['(((', 'double circle'],
+	['((', 'circle'],
+	['([', 'stadium'],
+	['[[', 'subroutine'],
+	['[(', 'cylinder'],
+	['{{', 'hexagon'],
+	['(', 'rounded rectangle'],
+	['{', 'rhombus'],
+	['>', 'asymmetric'],
+];
+
+// Names a flowchart shape from the text that follows the node ID
+function flowchartShape(shape: string): string {
+	if (shape.startsWith('@{')) {
+		return /\bshape:\s*([\w-]+)/.exec(shape)?.[1] ?? 'rectangle';
+	}
+	const close = findClosingBracket(shape, 0, shape.length);
+	const body = shape.slice(0, close).trimEnd();
+	if (body.startsWith('[/')) {
+		return body.endsWith('\\]') ? 'trapezoid' : 'parallelogram';
+	}
+	if (body.startsWith('[\\')) {
+		return body.endsWith('/]')
+			? 'inverted trapezoid'
+			: 'alternate parallelogram';
+	}
+	return (
+		FLOWCHART_SHAPES.find(([open]) => shape.startsWith(open))?.[1] ??
+		'rectangle'
+	);
+}
+
+function shapeLabel(
+	block: MermaidBlock,
+	definition: IdentifierToken,
+): string | undefined {
+	const contentLine = block.contentLines.find(
+		(candidate) => candidate.line === definition.line,
+	);
+	if (!contentLine) {
+		return undefined;
+	}
+	const declarationEnd = getDeclarationEnd(block, definition);
+	const tokenEnd = definition.character + definition.length;
+	const label = getLabelTokens(block).find(
+		(candidate) =>
+			candidate.line === definition.line &&
+			candidate.kind === 'label' &&
+			candidate.character >= tokenEnd &&
+			candidate.character < declarationEnd,
+	);
+	if (!label) {
+		return undefined;
+	}
+	const start = label.character - contentLine.character;
+	const text = contentLine.text.slice(start, start + label.length);
+	// `A@{ shape: rect, label: "Start" }`, with the closing quote already trimmed
+	if (contentLine.text[tokenEnd - contentLine.character] === '@') {
+		return /\blabel:\s*"?([^"]*)/.exec(text)?.[1].trim() || undefined;
+	}
+	return text;
+}
+
+/**
+ * Locates free text such as an edge label or message, for rendered elements that
+ * carry no identifier.
+ */
+export function findTextLocation(
+	block: MermaidBlock,
+	text: string,
+): { line: number; character: number; length: number } | undefined {
+	const needle = text.trim();
+	if (!needle) {
+		return undefined;
+	}
+
+	for (const contentLine of block.contentLines) {
+		const index = contentLine.text.indexOf(needle);
+		if (index >= 0) {
+			return {
+				line: contentLine.line,
+				character: contentLine.character + index,
+				length: needle.length,
+			};
+		}
+	}
+	return undefined;
+}
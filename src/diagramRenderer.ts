@@ -0,0 +1,329 @@
+import * as vscode from 'vscode';
+import type { MermaidConfig } from './mermaidConfig';
+import { VSCODE_COLORS_SCRIPT } from './theme';
+import { Logger } from './util/logger';
+import { generateNonce } from './util/nonce';
+
+export type RenderFormat = 'svg' | 'png';
+
+export type RenderOptions = {
+	format: RenderFormat;
+	// Options for mermaid.initialize including the theme, see applyTheme
+	mermaidConfig?: MermaidConfig;
+	// Pixel density multiplier for PNG output
+	scale?: number;
+	// Milliseconds before the render is abandoned (0 = no timeout)
+	timeout?: number;
+};
+
+type PendingRender = {
+	resolve: (data: Buffer) => void;
+	reject: (error: Error) => void;
+	timer?: NodeJS.Timeout;
+};
+
+const READY_TIMEOUT_MS = 30000;
+
+/**
+ * Render requests posted to a webview that are waiting for its `renderResult`
+ * reply. Shared by the export renderer and the live preview, which renders
+ * hover thumbnails.
+ */
+export class RenderRequests {
+	private readonly _logger: Logger;
+	private readonly _pending = new Map<number, PendingRender>();
+	private _nextId = 0;
+
+	constructor() {
+		this._logger = Logger.instance;
+	}
+
+	/**
+	 * Registers a request and hands its ID to `post`, which sends it to the
+	 * webview. Rejects if no reply arrives within `timeout` milliseconds.
+	 */
+	public add(timeout: number | undefined, post: (id: number) => void) {
+		const id = this._nextId++;
+		return new Promise<Buffer>((resolve, reject) => {
+			const pending: PendingRender = { resolve, reject };
+			if (timeout && timeout > 0) {
+				pending.timer = setTimeout(() => {
+					this._pending.delete(id);
+					reject(new Error(`Rendering timed out after ${timeout}ms`));
+				}, timeout);
+			}
+			this._pending.set(id, pending);
+			post(id);
+		});
+	}
+
+	public settle(message: { id: number; data?: string; error?: string }) {
+		const pending = this._pending.get(message.id);
+		if (!pending) {
+			// Timed out already
+			return;
+		}
+		this._pending.delete(message.id);
+		clearTimeout(pending.timer);
+
+		if (typeof message.data === 'string') {
+			pending.resolve(Buffer.from(message.data, 'base64'));
+		} else {
+			this._logger.logDebug('Renderer', 'Render failed', {
+				id: message.id,
+				error: message.error,
+			});
+			pending.reject(new Error(message.error || 'Unknown render error'));
+		}
+	}
+
+	// Fails every waiting request, e.g. when the webview is closed or reloaded
+	public rejectAll(reason: string) {
+		for (const pending of this._pending.values()) {
+			clearTimeout(pending.timer);
+			pending.reject(new Error(reason));
+		}
+		this._pending.clear();
+	}
+}
+
+/**
+ * Renders diagrams to image files without a preview. VS Code has no headless
+ * webviews, so this opens a background panel beside the editor (without taking
+ * focus) and renders through Mermaid there, one request at a time.
+ */
+export class DiagramRenderer implements vscode.Disposable {
+	public static readonly viewType = 'mermaidLivePreview.renderer';
+
+	private readonly _panel: vscode.WebviewPanel;
+	private readonly _requests = new RenderRequests();
+	private readonly _ready: Promise<void>;
+	private _disposed = false;
+
+	private constructor(extensionUri: vscode.Uri) {
+		this._panel = vscode.window.createWebviewPanel(
+			DiagramRenderer.viewType,
+			'Mermaid Export',
+			{ viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+			{
+				enableScripts: true,
+				retainContextWhenHidden: true,
+				localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out')],
+			},
+		);
+
+		this._ready = new Promise<void>((resolve, reject) => {
+			const timer = setTimeout(
+				() => reject(new Error('Mermaid did not load in the export renderer')),
+				READY_TIMEOUT_MS,
+			);
+			this._panel.webview.onDidReceiveMessage((message) => {
+				if (message.command === 'rendererReady') {
+					clearTimeout(timer);
+					resolve();
+				} else if (message.command === 'renderResult') {
+					this._requests.settle(message);
+				}
+			});
+			this._panel.onDidDispose(() => {
+				clearTimeout(timer);
+				reject(new Error('Export renderer was closed'));
+			});
+		});
+		// Avoid an unhandled rejection when the renderer is disposed before use
+		this._ready.catch(() => undefined);
+
+		this._panel.onDidDispose(() => {
+			this._disposed = true;
+			this._requests.rejectAll('Export renderer was closed');
+		});
+
+		this._panel.webview.html = this._getHtml(extensionUri);
+	}
+
+	public static async create(
+		extensionUri: vscode.Uri,
+	): Promise<DiagramRenderer> {
+		const renderer = new DiagramRenderer(extensionUri);
+		try {
+			await renderer._ready;
+		} catch (error) {
+			renderer.dispose();
+			throw error;
+		}
+		return renderer;
+	}
+
+	public get disposed(): boolean {
+		return this._disposed;
+	}
+
+	public render(code: string, options: RenderOptions): Promise<Buffer> {
+		if (this._disposed) {
+			return Promise.reject(new Error('Export renderer was closed'));
+		}
+
+		return this._requests.add(options.timeout, (id) =>
+			this._panel.webview.postMessage({
+				command: 'render',
+				id,
+				code,
+				mermaidConfig: options.mermaidConfig ?? {},
+				format: options.format,
+				scale: options.scale ?? 1,
+			}),
+		);
+	}
+
+	public dispose() {
+		if (!this._disposed) {
+			this._panel.dispose();
+		}
+	}
+
+	private _getHtml(extensionUri: vscode.Uri): string {
+		const webview = this._panel.webview;
+		const mermaidScriptUri = webview.asWebviewUri(
+			vscode.Uri.joinPath(
+				extensionUri,
+				'out',
+				'mermaid',
+				'dist',
+				'mermaid.esm.min.mjs',
+			),
+		);
+		const nonce = generateNonce();
+
+		return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>Mermaid Export</title>
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; script-src 'nonce-${nonce}' ${webview.cspSource}; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; connect-src ${webview.cspSource} https:;">
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-descriptionForeground);
+        }
+        #render-root {
+            position: absolute;
+            left: -100000px;
+            top: 0;
+        }
+    </style>
+    <script type="module" nonce="${nonce}">
+        import mermaid from '${mermaidScriptUri}';
+
+        const vscode = acquireVsCodeApi();
+        const root = document.getElementById('render-root');
+        let currentConfigKey = null;
+        let renderCount = 0;
+        let queue = Promise.resolve();
+
+${VSCODE_COLORS_SCRIPT}
+        function initializeMermaid(config) {
+            const resolved = withVSCodeColors({ ...config, startOnLoad: false });
+            const configKey = JSON.stringify(resolved);
+            if (configKey === currentConfigKey) {
+                return;
+            }
+            mermaid.initialize(resolved);
+            currentConfigKey = configKey;
+        }
+
+        function getSvgDimensions(svgEl) {
+            const viewBox = svgEl.viewBox && svgEl.viewBox.baseVal;
+            if (viewBox && viewBox.width && viewBox.height) {
+                return { width: viewBox.width, height: viewBox.height };
+            }
+
+            try {
+                const bbox = svgEl.getBBox();
+                if (bbox.width && bbox.height) {
+                    return { width: bbox.width, height: bbox.height };
+                }
+            } catch (err) {
+                console.warn('getBBox failed, falling back to default dimensions', err);
+            }
+
+            return { width: 800, height: 600 };
+        }
+
+        function loadImage(url) {
+            return new Promise((resolve, reject) => {
+                const img = new Image();
+                img.onload = () => resolve(img);
+                img.onerror = () => reject(new Error('Failed to load SVG for rasterization'));
+                img.src = url;
+            });
+        }
+
+        async function rasterize(svgEl, scale) {
+            const { width, height } = getSvgDimensions(svgEl);
+            const clonedSvg = svgEl.cloneNode(true);
+            clonedSvg.setAttribute('width', String(width));
+            clonedSvg.setAttribute('height', String(height));
+
+            const svgData = new XMLSerializer().serializeToString(clonedSvg);
+            const img = await loadImage('data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svgData));
+            const canvas = document.createElement('canvas');
+            canvas.width = width * scale;
+            canvas.height = height * scale;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                throw new Error('Unable to acquire canvas context');
+            }
+
+            ctx.setTransform(scale, 0, 0, scale, 0, 0);
+            ctx.drawImage(img, 0, 0, width, height);
+            return canvas.toDataURL('image/png').split(',')[1];
+        }
+
+        async function render(request) {
+            initializeMermaid(request.mermaidConfig);
+            renderCount++;
+            const { svg } = await mermaid.render('export-diagram-' + renderCount, request.code);
+
+            if (request.format === 'svg') {
+                return btoa(unescape(encodeURIComponent(svg)));
+            }
+
+            root.innerHTML = svg;
+            try {
+                const svgEl = root.querySelector('svg');
+                if (!svgEl) {
+                    throw new Error('Mermaid did not produce an SVG');
+                }
+                return await rasterize(svgEl, request.scale || 1);
+            } finally {
+                root.innerHTML = '';
+            }
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command !== 'render') {
+                return;
+            }
+
+            queue = queue.then(async () => {
+                try {
+                    const data = await render(message);
+                    vscode.postMessage({ command: 'renderResult', id: message.id, data });
+                } catch (error) {
+                    const text = error instanceof Error ? error.message : String(error);
+                    vscode.postMessage({ command: 'renderResult', id: message.id, error: text });
+                }
+            });
+        });
+
+        vscode.postMessage({ command: 'rendererReady' });
+    </script>
+</head>
+<body>
+    <p>Rendering Mermaid diagrams for export. This tab closes when the export finishes.</p>
+    <div id="render-root"></div>
+</body>
+</html>`;
+	}
+}
@@ -0,0 +1,522 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { isMermaidFileUri } from './batchExport';
+import { findDiagramHeader, findDiagramTitle } from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+export type DiagramTemplate = {
+	label: string;
+	// Diagram type, shown next to the label
+	description: string;
+	// Snippet syntax, so `${1:Name}` placeholders become tab stops
+	body: string;
+	// Where a user template was loaded from
+	uri?: vscode.Uri;
+};
+
+type TemplatePickItem = vscode.QuickPickItem & { template?: DiagramTemplate };
+
+/**
+ * A starting point for every diagram type Mermaid 11 renders. Names are snippet
+ * placeholders, and repeated names are mirrored so renaming one renames all.
+ * Bodies are indented with tabs, which the editor converts to its own indentation.
+ */
+// biome-ignore-start lint/suspicious/noTemplateCurlyInString: snippet placeholders, not templates
+export const BUILT_IN_TEMPLATES: readonly DiagramTemplate[] = [
+	{
+		label: 'Flowchart',
+		description: 'flowchart',
+		body: [
+			'flowchart ${1|TD,LR,BT,RL|}',
+			'\t${2:start}([${3:Start}]) --> ${4:check}{${5:Condition?}}',
+			'\t$4 -->|Yes| ${6:work}[${7:Do something}]',
+			'\t$4 -->|No| ${8:done}([${9:End}])',
+			'\t$6 --> $8',
+		].join('\n'),
+	},
+	{
+		label: 'Sequence Diagram',
+		description: 'sequenceDiagram',
+		body: [
+			'sequenceDiagram',
+			'\tparticipant ${1:Client}',
+			'\tparticipant ${2:Server}',
+			'\t$1->>+$2: ${3:Request}',
+			'\talt ${4:Success}',
+			'\t\t$2-->>$1: ${5:Response}',
+			'\telse ${6:Failure}',
+			'\t\t$2-->>$1: ${7:Error}',
+			'\tend',
+			'\tdeactivate $2',
+		].join('\n'),
+	},
+	{
+		label: 'Class Diagram',
+		description: 'classDiagram',
+		body: [
+			'classDiagram',
+			'\tclass ${1:Animal} {',
+			'\t\t+String ${2:name}',
+			'\t\t+${3:move}()',
+			'\t}',
+			'\tclass ${4:Dog} {',
+			'\t\t+${5:bark}()',
+			'\t}',
+			'\t$1 <|-- $4',
+		].join('\n'),
+	},
+	{
+		label: 'State Diagram',
+		description: 'stateDiagram-v2',
+		body: [
+			'stateDiagram-v2',
+			'\t[*] --> ${1:Idle}',
+			'\t$1 --> ${2:Running} : ${3:start}',
+			'\t$2 --> $1 : ${4:stop}',
+			'\t$2 --> [*]',
+		].join('\n'),
+	},
+	{
+		label: 'Entity Relationship Diagram',
+		description: 'erDiagram',
+		body: [
+			'erDiagram',
+			'\t${1:CUSTOMER} ||--o{ ${2:ORDER} : ${3:places}',
+			'\t$1 {',
+			'\t\tstring name',
+			'\t\tstring email',
+			'\t}',
+			'\t$2 {',
+			'\t\tint id',
+			'\t\tdate created',
+			'\t}',
+		].join('\n'),
+	},
+	{
+		label: 'User Journey',
+		description: 'journey',
+		body: [
+			'journey',
+			'\ttitle ${1:My working day}',
+			'\tsection ${2:Morning}',
+			'\t\t${3:Make coffee}: ${4:5}: ${5:Me}',
+			'\t\t${6:Commute}: ${7:2}: $5',
+			'\tsection ${8:Afternoon}',
+			'\t\t${9:Write code}: ${10:4}: $5',
+		].join('\n'),
+	},
+	{
+		label: 'Gantt Chart',
+		description: 'gantt',
+		body: [
+			'gantt',
+			'\ttitle ${1:Project plan}',
+			'\tdateFormat YYYY-MM-DD',
+			'\tsection ${2:Design}',
+			'\t\t${3:Research} :${4:a1}, ${5:2025-01-01}, ${6:7d}',
+			'\t\t${7:Mockups} :after $4, ${8:5d}',
+			'\tsection ${9:Build}',
+			'\t\t${10:Implementation} :${11:12d}',
+		].join('\n'),
+	},
+	{
+		label: 'Pie Chart',
+		description: 'pie',
+		body: [
+			'pie title ${1:Pets adopted}',
+			'\t"${2:Dogs}" : ${3:386}',
+			'\t"${4:Cats}" : ${5:85}',
+			'\t"${6:Rats}" : ${7:15}',
+		].join('\n'),
+	},
+	{
+		label: 'Quadrant Chart',
+		description: 'quadrantChart',
+		body: [
+			'quadrantChart',
+			'\ttitle ${1:Reach and engagement}',
+			'\tx-axis ${2:Low Reach} --> ${3:High Reach}',
+			'\ty-axis ${4:Low Engagement} --> ${5:High Engagement}',
+			'\tquadrant-1 ${6:Expand}',
+			'\tquadrant-2 ${7:Promote}',
+			'\tquadrant-3 ${8:Re-evaluate}',
+			'\tquadrant-4 ${9:Improve}',
+			'\t${10:Campaign A}: [0.3, 0.6]',
+			'\t${11:Campaign B}: [0.45, 0.23]',
+		].join('\n'),
+	},
+	{
+		label: 'Requirement Diagram',
+		description: 'requirementDiagram',
+		body: [
+			'requirementDiagram',
+			'\trequirement ${1:test_req} {',
+			'\t\tid: ${2:1}',
+			'\t\ttext: ${3:the test text.}',
+			'\t\trisk: high',
+			'\t\tverifymethod: test',
+			'\t}',
+			'\telement ${4:test_entity} {',
+			'\t\ttype: ${5:simulation}',
+			'\t}',
+			'\t$4 - satisfies -> $1',
+		].join('\n'),
+	},
+	{
+		label: 'Git Graph',
+		description: 'gitGraph',
+		body: [
+			'gitGraph',
+			'\tcommit',
+			'\tbranch ${1:develop}',
+			'\tcheckout $1',
+			'\tcommit',
+			'\tcommit',
+			'\tcheckout ${2:main}',
+			'\tmerge $1',
+			'\tcommit',
+		].join('\n'),
+	},
+	{
+		label: 'C4 Context Diagram',
+		description: 'C4Context',
+		body: [
+			'C4Context',
+			'\ttitle ${1:System Context diagram}',
+			'\tPerson(${2:customer}, "${3:Customer}", "${4:A customer of the bank}")',
+			'\tSystem(${5:banking}, "${6:Internet Banking}", "${7:Lets customers view their accounts}")',
+			'\tSystem_Ext(${8:mail}, "${9:E-mail System}")',
+			'\tRel($2, $5, "${10:Uses}")',
+			'\tRel($5, $8, "${11:Sends e-mail using}")',
+		].join('\n'),
+	},
+	{
+		label: 'C4 Container Diagram',
+		description: 'C4Container',
+		body: [
+			'C4Container',
+			'\ttitle ${1:Container diagram}',
+			'\tPerson(${2:customer}, "${3:Customer}")',
+			'\tSystem_Boundary(${4:system}, "${5:Internet Banking}") {',
+			'\t\tContainer(${6:web}, "${7:Web Application}", "${8:Java, Spring MVC}")',
+			'\t\tContainerDb(${9:db}, "${10:Database}", "${11:PostgreSQL}")',
+			'\t}',
+			'\tRel($2, $6, "${12:Uses}", "HTTPS")',
+			'\tRel($6, $9, "${13:Reads from and writes to}")',
+		].join('\n'),
+	},
+	{
+		label: 'C4 Component Diagram',
+		description: 'C4Component',
+		body: [
+			'C4Component',
+			'\ttitle ${1:Component diagram}',
+			'\tContainer_Boundary(${2:api}, "${3:API Application}") {',
+			'\t\tComponent(${4:controller}, "${5:Sign In Controller}", "${6:Spring MVC Controller}")',
+			'\t\tComponent(${7:security}, "${8:Security Component}", "${9:Spring Bean}")',
+			'\t}',
+			'\tRel($4, $7, "${10:Uses}")',
+		].join('\n'),
+	},
+	{
+		label: 'C4 Dynamic Diagram',
+		description: 'C4Dynamic',
+		body: [
+			'C4Dynamic',
+			'\ttitle ${1:Dynamic diagram}',
+			'\tContainer(${2:spa}, "${3:Single-Page Application}")',
+			'\tComponent(${4:controller}, "${5:Sign In Controller}")',
+			'\tComponentDb(${6:db}, "${7:Database}")',
+			'\tRelIndex(1, $2, $4, "${8:Submits credentials to}")',
+			'\tRelIndex(2, $4, $6, "${9:Reads user from}")',
+		].join('\n'),
+	},
+	{
+		label: 'C4 Deployment Diagram',
+		description: 'C4Deployment',
+		body: [
+			'C4Deployment',
+			'\ttitle ${1:Deployment diagram}',
+			'\tDeployment_Node(${2:cloud}, "${3:Cloud Provider}") {',
+			'\t\tDeployment_Node(${4:server}, "${5:Web Server}", "${6:Ubuntu 24.04}") {',
+			'\t\t\tContainer(${7:api}, "${8:API Application}", "${9:Node.js}")',
+			'\t\t}',
+			'\t}',
+		].join('\n'),
+	},
+	{
+		label: 'Mind Map',
+		description: 'mindmap',
+		body: [
+			'mindmap',
+			'\troot((${1:Topic}))',
+			'\t\t${2:Idea}',
+			'\t\t\t${3:Detail}',
+			'\t\t${4:Another idea}',
+		].join('\n'),
+	},
+	{
+		label: 'Timeline',
+		description: 'timeline',
+		body: [
+			'timeline',
+			'\ttitle ${1:History}',
+			'\t${2:2023} : ${3:First event}',
+			'\t${4:2024} : ${5:Second event} : ${6:Third event}',
+		].join('\n'),
+	},
+	{
+		label: 'Sankey Diagram',
+		description: 'sankey-beta',
+		body: [
+			'sankey-beta',
+			'${1:Source},${2:Target A},${3:10}',
+			'$1,${4:Target B},${5:5}',
+		].join('\n'),
+	},
+	{
+		label: 'XY Chart',
+		description: 'xychart-beta',
+		body: [
+			'xychart-beta',
+			'\ttitle "${1:Sales revenue}"',
+			'\tx-axis [${2:jan, feb, mar, apr}]',
+			'\ty-axis "${3:Revenue}" 0 --> ${4:10000}',
+			'\tbar [${5:5000, 6000, 7500, 8200}]',
+			'\tline [${6:5000, 6000, 7500, 8200}]',
+		].join('\n'),
+	},
+	{
+		label: 'Block Diagram',
+		description: 'block-beta',
+		body: [
+			'block-beta',
+			'\tcolumns ${1:3}',
+			'\t${2:a}["${3:Frontend}"] ${4:b}["${5:API}"] ${6:c}[("${7:Database}")]',
+			'\t$2 --> $4',
+			'\t$4 --> $6',
+		].join('\n'),
+	},
+	{
+		label: 'Packet Diagram',
+		description: 'packet-beta',
+		body: [
+			'packet-beta',
+			'\ttitle ${1:UDP Packet}',
+			'\t0-15: "${2:Source Port}"',
+			'\t16-31: "${3:Destination Port}"',
+			'\t32-47: "${4:Length}"',
+			'\t48-63: "${5:Checksum}"',
+			'\t64-95: "${6:Data (variable length)}"',
+		].join('\n'),
+	},
+	{
+		label: 'Kanban Board',
+		description: 'kanban',
+		body: [
+			'kanban',
+			'\t${1:todo}[${2:To Do}]',
+			'\t\t${3:task1}[${4:Write the spec}]',
+			'\t${5:doing}[${6:In Progress}]',
+			'\t\t${7:task2}[${8:Build the feature}]',
+			'\t${9:done}[${10:Done}]',
+		].join('\n'),
+	},
+	{
+		label: 'Architecture Diagram',
+		description: 'architecture-beta',
+		body: [
+			'architecture-beta',
+			'\tgroup ${1:api}(cloud)[${2:API}]',
+			'\tservice ${3:db}(database)[${4:Database}] in $1',
+			'\tservice ${5:server}(server)[${6:Server}] in $1',
+			'\t$3:L -- R:$5',
+		].join('\n'),
+	},
+	{
+		label: 'Radar Chart',
+		description: 'radar-beta',
+		body: [
+			'radar-beta',
+			'\ttitle ${1:Skills}',
+			'\taxis ${2:a}["${3:Design}"], ${4:b}["${5:Code}"], ${6:c}["${7:Test}"]',
+			'\tcurve ${8:alice}["${9:Alice}"]{${10:4, 3, 5}}',
+			'\tcurve ${11:bob}["${12:Bob}"]{${13:3, 5, 2}}',
+			'\tmax 5',
+		].join('\n'),
+	},
+	{
+		label: 'Treemap',
+		description: 'treemap-beta',
+		body: [
+			'treemap-beta',
+			'"${1:Category A}"',
+			'\t"${2:Item A1}": ${3:10}',
+			'\t"${4:Item A2}": ${5:20}',
+			'"${6:Category B}"',
+			'\t"${7:Item B1}": ${8:15}',
+		].join('\n'),
+	},
+];
+// biome-ignore-end lint/suspicious/noTemplateCurlyInString: snippet placeholders, not templates
+
+/**
+ * Inserts a template at the cursor: as a ```` ```mermaid ```` fence on its own
+ * lines in markdown, or as raw source in Mermaid files.
+ */
+export async function insertDiagram(editor: vscode.TextEditor): Promise<void> {
+	const document = editor.document;
+	if (document.languageId !== 'markdown' && document.languageId !== 'mermaid') {
+		vscode.window.showInformationMessage(
+			'Mermaid Viewer only works with Markdown and Mermaid files.',
+		);
+		return;
+	}
+
+	const template = await pickTemplate(document.uri);
+	if (!template) {
+		return;
+	}
+
+	if (document.languageId === 'mermaid') {
+		await editor.insertSnippet(new vscode.SnippetString(template.body));
+		return;
+	}
+
+	const position = editor.selection.active;
+	const line = document.lineAt(position.line);
+	const fence = `\`\`\`mermaid\n${template.body}\n\`\`\``;
+	// Keep the fence off lines that already have text
+	if (line.isEmptyOrWhitespace) {
+		await editor.insertSnippet(
+			new vscode.SnippetString(`${fence}\n`),
+			line.range.start,
+		);
+	} else {
+		await editor.insertSnippet(
+			new vscode.SnippetString(`\n\n${fence}`),
+			line.range.end,
+		);
+	}
+}
+
+/**
+ * Opens an untitled Mermaid document filled in from a template.
+ */
+export async function newMermaidFile(): Promise<void> {
+	const template = await pickTemplate(
+		vscode.window.activeTextEditor?.document.uri,
+	);
+	if (!template) {
+		return;
+	}
+
+	const document = await vscode.workspace.openTextDocument({
+		language: 'mermaid',
+	});
+	const editor = await vscode.window.showTextDocument(document);
+	await editor.insertSnippet(new vscode.SnippetString(template.body));
+}
+
+async function pickTemplate(
+	resource?: vscode.Uri,
+): Promise<DiagramTemplate | undefined> {
+	const userTemplates = await loadUserTemplates(resource);
+	const items: TemplatePickItem[] = [];
+	if (userTemplates.length) {
+		items.push({
+			label: 'Workspace',
+			kind: vscode.QuickPickItemKind.Separator,
+		});
+		for (const template of userTemplates) {
+			items.push({
+				label: template.label,
+				description: template.description,
+				detail: template.uri
+					? vscode.workspace.asRelativePath(template.uri)
+					: undefined,
+				template,
+			});
+		}
+		items.push({ label: 'Built-in', kind: vscode.QuickPickItemKind.Separator });
+	}
+	for (const template of BUILT_IN_TEMPLATES) {
+		items.push({
+			label: template.label,
+			description: template.description,
+			template,
+		});
+	}
+
+	const choice = await vscode.window.showQuickPick(items, {
+		placeHolder: 'Select a diagram template',
+		matchOnDescription: true,
+	});
+	return choice?.template;
+}
+
+/**
+ * Reads the `.mmd` and `.mermaid` files in the configured templates folder of
+ * each workspace folder, or the one folder when the setting is absolute. A
+ * missing folder simply means there are no user templates.
+ */
+export async function loadUserTemplates(
+	resource?: vscode.Uri,
+): Promise<DiagramTemplate[]> {
+	const templatesDirectory = vscode.workspace
+		.getConfiguration('mermaidLivePreview', resource)
+		.get<string>('templatesDirectory', '.mermaid/templates');
+	if (!templatesDirectory) {
+		return [];
+	}
+
+	const directories = new Map<string, vscode.Uri>();
+	if (path.isAbsolute(templatesDirectory)) {
+		const uri = vscode.Uri.file(templatesDirectory);
+		directories.set(uri.toString(), uri);
+	} else {
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			const uri = vscode.Uri.joinPath(folder.uri, templatesDirectory);
+			directories.set(uri.toString(), uri);
+		}
+	}
+
+	const logger = Logger.instance;
+	const decoder = new TextDecoder();
+	const templates: DiagramTemplate[] = [];
+	for (const directory of directories.values()) {
+		let entries: [string, vscode.FileType][];
+		try {
+			entries = await vscode.workspace.fs.readDirectory(directory);
+		} catch {
+			continue;
+		}
+
+		const files = entries
+			.filter(([, type]) => type & vscode.FileType.File)
+			.map(([name]) => vscode.Uri.joinPath(directory, name))
+			.filter(isMermaidFileUri)
+			.sort((a, b) => a.path.localeCompare(b.path));
+		for (const uri of files) {
+			try {
+				const body = decoder
+					.decode(await vscode.workspace.fs.readFile(uri))
+					.replace(/\r\n/g, '\n')
+					.trimEnd();
+				const lines = body.split('\n');
+				templates.push({
+					label: findDiagramTitle(lines) ?? path.posix.parse(uri.path).name,
+					description: findDiagramHeader(lines)?.type ?? '',
+					body,
+					uri,
+				});
+			} catch (error) {
+				logger.logWarning('Skipping unreadable diagram template', {
+					path: uri.fsPath,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+		}
+	}
+	return templates;
+}
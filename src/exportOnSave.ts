@@ -0,0 +1,206 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { getExportSettings } from './batchExport';
+import {
+	DiagramRenderer,
+	type RenderFormat,
+	type RenderOptions,
+} from './diagramRenderer';
+import { getMermaidBlocks, hashDiagram } from './mermaidBlocks';
+import { MermaidPreviewPanel } from './previewPanel';
+import { Logger } from './util/logger';
+
+// biome-ignore lint/suspicious/noTemplateCurlyInString: path variables, not a template
+const DEFAULT_PATH_PATTERN = '${dir}/${name}-${index}.${ext}';
+const SIGNATURES_KEY = 'mermaidLivePreview.exportOnSave.signatures';
+
+/**
+ * Writes sidecar images for every diagram in a document when it is saved. Each
+ * output remembers the content hash it was rendered from (in workspace state, so
+ * it survives reloads) and is skipped while the hash matches and the file exists.
+ *
+ * Diagrams are rendered by an open live preview when there is one. Otherwise a
+ * "Mermaid Export" tab opens beside the editor without taking focus, and closes
+ * as soon as the save's images are written.
+ */
+export class ExportOnSave implements vscode.Disposable {
+	private readonly _logger: Logger;
+	private _renderer: Promise<DiagramRenderer> | undefined;
+	private _queue: Promise<void> = Promise.resolve();
+
+	constructor(
+		private readonly _extensionUri: vscode.Uri,
+		private readonly _state: vscode.Memento,
+	) {
+		this._logger = Logger.instance;
+	}
+
+	public handleSave(document: vscode.TextDocument) {
+		const config = vscode.workspace.getConfiguration('mermaidLivePreview');
+		if (
+			!config.get<boolean>('exportOnSave', false) ||
+			document.uri.scheme === 'untitled' ||
+			(document.languageId !== 'markdown' && document.languageId !== 'mermaid')
+		) {
+			return;
+		}
+
+		// Serialize exports so rapid saves never render the same output twice at once
+		this._queue = this._queue
+			.then(() => this._export(document))
+			.catch((error) =>
+				this._logger.logError(
+					'Failed to export diagrams on save',
+					error instanceof Error ? error : new Error(String(error)),
+				),
+			);
+	}
+
+	public dispose() {
+		this._disposeRenderer();
+	}
+
+	private async _export(document: vscode.TextDocument) {
+		const blocks = getMermaidBlocks(document);
+		if (!blocks.length) {
+			return;
+		}
+
+		const settings = getExportSettings(document.uri);
+		const pattern = vscode.workspace
+			.getConfiguration('mermaidLivePreview')
+			.get<string>('exportOnSavePath', DEFAULT_PATH_PATTERN);
+		const signatures = {
+			...this._state.get<Record<string, string>>(SIGNATURES_KEY, {}),
+		};
+		let written = 0;
+		let failed = 0;
+
+		for (let index = 0; index < blocks.length; index++) {
+			const code = blocks[index].code;
+			for (const format of settings.formats) {
+				const target = expandPathPattern(
+					pattern || DEFAULT_PATH_PATTERN,
+					document.uri,
+					index,
+					format,
+				);
+				const key = target.toString();
+				const signature = hashDiagram(
+					[
+						JSON.stringify(settings.mermaidConfig),
+						format === 'png' ? settings.scale : 1,
+						code,
+					].join('\n'),
+				);
+				if (signatures[key] === signature && (await fileExists(target))) {
+					continue;
+				}
+
+				try {
+					const data = await this._render(code, {
+						format,
+						mermaidConfig: settings.mermaidConfig,
+						scale: settings.scale,
+						timeout: settings.renderTimeout,
+					});
+					await vscode.workspace.fs.createDirectory(
+						target.with({ path: path.posix.dirname(target.path) }),
+					);
+					await vscode.workspace.fs.writeFile(target, data);
+					signatures[key] = signature;
+					written++;
+				} catch (error) {
+					failed++;
+					this._logger.logWarning('Failed to export diagram on save', {
+						path: target.fsPath,
+						diagram: index + 1,
+						error: error instanceof Error ? error.message : String(error),
+					});
+				}
+			}
+		}
+
+		// Close the export tab, if one was needed, before anything else can fail
+		this._disposeRenderer();
+		if (written > 0 || failed > 0) {
+			await this._state.update(SIGNATURES_KEY, signatures);
+			this._logger.logInfo('Exported diagrams on save', {
+				document: document.uri.fsPath,
+				written,
+				failed,
+			});
+		}
+		if (failed > 0) {
+			vscode.window.setStatusBarMessage(
+				`$(warning) Mermaid: ${failed} diagram ${failed === 1 ? 'image' : 'images'} failed to export`,
+				5000,
+			);
+		}
+	}
+
+	private async _render(code: string, options: RenderOptions): Promise<Buffer> {
+		const preview = MermaidPreviewPanel.findRenderer();
+		if (preview) {
+			return preview.renderImage(code, options);
+		}
+		return (await this._acquireRenderer()).render(code, options);
+	}
+
+	private async _acquireRenderer(): Promise<DiagramRenderer> {
+		// Start a new renderer if the previous one failed or its tab was closed
+		const existing = await this._renderer?.catch(() => undefined);
+		if (existing && !existing.disposed) {
+			return existing;
+		}
+		this._renderer = DiagramRenderer.create(this._extensionUri);
+		return this._renderer;
+	}
+
+	private _disposeRenderer() {
+		const renderer = this._renderer;
+		this._renderer = undefined;
+		renderer?.then(
+			(instance) => instance.dispose(),
+			() => undefined,
+		);
+	}
+}
+
+/**
+ * Expands `${dir}`, `${name}`, `${index}` (1-based) and `${ext}` in the output
+ * pattern. Relative results are resolved against the source folder, and a pattern
+ * without `${ext}` gets its extension replaced by the format's.
+ */
+function expandPathPattern(
+	pattern: string,
+	source: vscode.Uri,
+	index: number,
+	format: RenderFormat,
+): vscode.Uri {
+	const dir = path.posix.dirname(source.path);
+	let expanded = pattern
+		.replace(/\$\{dir\}/g, dir)
+		.replace(/\$\{name\}/g, path.posix.parse(source.path).name)
+		.replace(/\$\{index\}/g, String(index + 1))
+		.replace(/\$\{ext\}/g, format)
+		.replace(/\\/g, '/');
+
+	if (!/\$\{ext\}/.test(pattern)) {
+		const parsed = path.posix.parse(expanded);
+		expanded = path.posix.join(parsed.dir, `${parsed.name}.${format}`);
+	}
+
+	return source.with({
+		path: path.posix.resolve(dir, expanded),
+	});
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+	try {
+		await vscode.workspace.fs.stat(uri);
+		return true;
+	} catch {
+		return false;
+	}
+}
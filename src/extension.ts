@@ -1,51 +1,35 @@
 import * as vscode from 'vscode';
+import { exportAllDiagrams } from './batchExport';
+import { MermaidCodeActionProvider } from './codeActionProvider';
+import { MermaidColorProvider } from './colorProvider';
+import { MermaidCompletionProvider } from './completionProvider';
+import { MermaidDiagnostics } from './diagnostics';
+import { insertDiagram, newMermaidFile } from './diagramTemplates';
+import { ExportOnSave } from './exportOnSave';
 import { MermaidFoldingProvider } from './foldingProvider';
+import { MermaidFormatter } from './formatter';
+import { MermaidHoverProvider } from './hoverProvider';
+import { MermaidLinkProvider } from './linkProvider';
+import { findMermaidBlockAtLine, getMermaidBlocks } from './mermaidBlocks';
+import { MermaidConfigFiles } from './mermaidConfig';
+import { MermaidNavigationProvider } from './navigationProvider';
 import { MermaidPreviewPanel, MermaidPreviewSerializer } from './previewPanel';
+import { MermaidRenameProvider } from './renameProvider';
+import {
+	MermaidSemanticTokensProvider,
+	SEMANTIC_TOKENS_LEGEND,
+} from './semanticTokensProvider';
+import { MermaidStructureProvider } from './structureProvider';
+import { MermaidDocumentSymbolProvider } from './symbolProvider';
 import { Logger } from './util/logger';
 
-function findMermaidFenceStartLines(document: vscode.TextDocument): number[] {
-	const text = document.getText();
-	const mermaidRegex = /```mermaid[^\S\r\n]*(?:\r?\n)/g;
-	const lines: number[] = [];
-
-	let match: RegExpExecArray | null = mermaidRegex.exec(text);
-	while (match !== null) {
-		const startPos = document.positionAt(match.index);
-		lines.push(startPos.line);
-		match = mermaidRegex.exec(text);
-	}
-
-	return lines;
-}
-
-function getMermaidBlockAtLine(
-	document: vscode.TextDocument,
-	line: number,
-): string | undefined {
-	const text = document.getText();
-
-	// For standalone .mmd or .mermaid files, return entire content
-	if (document.languageId === 'mermaid') {
-		return text.trim();
-	}
-
-	// For markdown files, extract mermaid code blocks
-	const mermaidRegex = /```mermaid[^\S\r\n]*(?:\r?\n)([\s\S]*?)(?:\r?\n)?```/g;
-	let match: RegExpExecArray | null = mermaidRegex.exec(text);
-
-	while (match !== null) {
-		const startPos = document.positionAt(match.index);
-		const endPos = document.positionAt(match.index + match[0].length);
-
-		if (line >= startPos.line && line <= endPos.line) {
-			const block = match[1] ?? '';
-			return block.trim();
-		}
-		match = mermaidRegex.exec(text);
-	}
-
-	return undefined;
-}
+// Markdown and Mermaid documents, saved or untitled, for the language features
+const MERMAID_DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+	{ language: 'markdown', scheme: 'file' },
+	{ language: 'markdown', scheme: 'untitled' },
+	{ language: 'mermaid', scheme: 'file' },
+	{ language: 'mermaid', scheme: 'untitled' },
+];
 
 class MermaidCodeLensProvider implements vscode.CodeLensProvider {
 	provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
@@ -74,7 +58,7 @@ class MermaidCodeLensProvider implements vscode.CodeLensProvider {
 		}
 
 		// For markdown files, find mermaid code blocks
-		for (const line of findMermaidFenceStartLines(document)) {
+		for (const { startLine: line } of getMermaidBlocks(document)) {
 			const position = new vscode.Position(line, 0);
 			const range = new vscode.Range(position, position);
 			const command: vscode.Command = {
@@ -122,12 +106,10 @@ class MermaidGutterDecorator implements vscode.Disposable {
 			return;
 		}
 
-		const decorations = findMermaidFenceStartLines(editor.document).map(
-			(line) => ({
-				range: new vscode.Range(line, 0, line, 0),
-				hoverMessage: 'Mermaid diagram',
-			}),
-		);
+		const decorations = getMermaidBlocks(editor.document).map((block) => ({
+			range: new vscode.Range(block.startLine, 0, block.startLine, 0),
+			hoverMessage: 'Mermaid diagram',
+		}));
 		editor.setDecorations(this.decorationType, decorations);
 	}
 
@@ -162,15 +144,53 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(gutterDecorator);
 	gutterDecorator.update(vscode.window.activeTextEditor);
 
+	// Surface Mermaid errors in the Problems panel, with or without an open preview
+	const diagnostics = MermaidDiagnostics.instance;
+	context.subscriptions.push(diagnostics);
+	for (const document of vscode.workspace.textDocuments) {
+		diagnostics.update(document);
+	}
+
+	// Repository config files feed every render, so re-render previews when they change
+	const configFiles = MermaidConfigFiles.instance;
+	context.subscriptions.push(
+		configFiles,
+		configFiles.onDidChange(() =>
+			MermaidPreviewPanel.forEachPanel((panel) => panel.refreshAppearance()),
+		),
+	);
+	configFiles.initialize();
+
+	// Keep sidecar images in sync with their sources when exportOnSave is enabled
+	const exportOnSave = new ExportOnSave(
+		context.extensionUri,
+		context.workspaceState,
+	);
+	context.subscriptions.push(
+		exportOnSave,
+		vscode.workspace.onDidSaveTextDocument((document) =>
+			exportOnSave.handleSave(document),
+		),
+	);
+
+	// Hover thumbnails render in an open preview and keep a cache
+	const hoverProvider = new MermaidHoverProvider();
+	context.subscriptions.push(hoverProvider);
+
 	// Refresh preview when VS Code theme changes so appearance rules can be re-applied
 	const themeChangeListener = vscode.window.onDidChangeActiveColorTheme(() => {
-		MermaidPreviewPanel.forEachPanel((panel) => panel.refreshAppearance());
+		MermaidPreviewPanel.forEachPanel((panel) => panel.handleColorThemeChange());
+		hoverProvider.clearCache();
 	});
 	context.subscriptions.push(themeChangeListener);
 
 	const configChangeListener = vscode.workspace.onDidChangeConfiguration(
 		(event) => {
-			if (event.affectsConfiguration('mermaidLivePreview.previewAppearance')) {
+			if (
+				event.affectsConfiguration('mermaidLivePreview.previewAppearance') ||
+				event.affectsConfiguration('mermaidLivePreview.mermaidConfig') ||
+				event.affectsConfiguration('mermaidLivePreview.customThemes')
+			) {
 				MermaidPreviewPanel.forEachPanel((panel) => panel.refreshAppearance());
 			}
 		},
@@ -180,6 +200,16 @@ export function activate(context: vscode.ExtensionContext) {
 	// Register CodeLens provider for both markdown and mermaid files
 	const codeLensProvider = new MermaidCodeLensProvider();
 	const foldingProvider = new MermaidFoldingProvider();
+	const completionProvider = new MermaidCompletionProvider();
+	const symbolProvider = new MermaidDocumentSymbolProvider();
+	const navigationProvider = new MermaidNavigationProvider();
+	const renameProvider = new MermaidRenameProvider();
+	const formatter = new MermaidFormatter();
+	const semanticTokensProvider = new MermaidSemanticTokensProvider();
+	const codeActionProvider = new MermaidCodeActionProvider();
+	const colorProvider = new MermaidColorProvider();
+	const structureProvider = new MermaidStructureProvider();
+	const linkProvider = new MermaidLinkProvider();
 
 	// Batch all provider registrations
 	context.subscriptions.push(
@@ -192,12 +222,166 @@ export function activate(context: vscode.ExtensionContext) {
 			codeLensProvider,
 		),
 		vscode.languages.registerFoldingRangeProvider(
-			[
-				{ language: 'mermaid', scheme: 'file' },
-				{ language: 'mermaid', scheme: 'untitled' },
-			],
+			MERMAID_DOCUMENT_SELECTOR,
 			foldingProvider,
 		),
+		vscode.languages.registerCompletionItemProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			completionProvider,
+			'-',
+			'.',
+			'=',
+		),
+		vscode.languages.registerDocumentSymbolProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			symbolProvider,
+			{ label: 'Mermaid' },
+		),
+		vscode.languages.registerDefinitionProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			navigationProvider,
+		),
+		vscode.languages.registerReferenceProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			navigationProvider,
+		),
+		vscode.languages.registerRenameProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			renameProvider,
+		),
+		vscode.languages.registerDocumentFormattingEditProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			formatter,
+		),
+		vscode.languages.registerDocumentRangeFormattingEditProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			formatter,
+		),
+		vscode.languages.registerDocumentSemanticTokensProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			semanticTokensProvider,
+			SEMANTIC_TOKENS_LEGEND,
+		),
+		vscode.languages.registerCodeActionsProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			codeActionProvider,
+			{
+				providedCodeActionKinds:
+					MermaidCodeActionProvider.providedCodeActionKinds,
+			},
+		),
+		vscode.languages.registerHoverProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			hoverProvider,
+		),
+		vscode.languages.registerColorProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			colorProvider,
+		),
+		vscode.languages.registerDocumentHighlightProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			structureProvider,
+		),
+		vscode.languages.registerSelectionRangeProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			structureProvider,
+		),
+		vscode.languages.registerDocumentLinkProvider(
+			MERMAID_DOCUMENT_SELECTOR,
+			linkProvider,
+		),
+	);
+
+	const exportAllDiagramsCommand = vscode.commands.registerCommand(
+		'mermaidLivePreview.exportAllDiagrams',
+		async (folder?: vscode.Uri) => {
+			try {
+				await exportAllDiagrams(
+					context.extensionUri,
+					folder instanceof vscode.Uri ? folder : undefined,
+				);
+			} catch (error) {
+				logger.logError(
+					'Failed to export all diagrams',
+					error instanceof Error ? error : new Error(String(error)),
+				);
+				vscode.window.showErrorMessage(`Failed to export diagrams: ${error}`);
+			}
+		},
+	);
+
+	const goToMatchingBlockEndCommand = vscode.commands.registerCommand(
+		'mermaidLivePreview.goToMatchingBlockEnd',
+		() => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				return;
+			}
+
+			const selections = editor.selections.map((selection) => {
+				const target = structureProvider.findMatchingPosition(
+					editor.document,
+					selection.active,
+				);
+				return target ? new vscode.Selection(target, target) : selection;
+			});
+			if (
+				selections.every(
+					(selection, index) => selection === editor.selections[index],
+				)
+			) {
+				vscode.window.setStatusBarMessage(
+					'$(info) Mermaid: no block at the cursor',
+					3000,
+				);
+				return;
+			}
+
+			editor.selections = selections;
+			editor.revealRange(
+				selections[0],
+				vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+			);
+		},
+	);
+
+	const insertDiagramCommand = vscode.commands.registerCommand(
+		'mermaidLivePreview.insertDiagram',
+		async () => {
+			const editor = vscode.window.activeTextEditor;
+			if (!editor) {
+				vscode.window.showInformationMessage(
+					'Open a Markdown or Mermaid file to insert a diagram.',
+				);
+				return;
+			}
+			try {
+				await insertDiagram(editor);
+			} catch (error) {
+				logger.logError(
+					'Failed to insert diagram',
+					error instanceof Error ? error : new Error(String(error)),
+				);
+				vscode.window.showErrorMessage(`Failed to insert diagram: ${error}`);
+			}
+		},
+	);
+
+	const newMermaidFileCommand = vscode.commands.registerCommand(
+		'mermaidLivePreview.newMermaidFile',
+		async () => {
+			try {
+				await newMermaidFile();
+			} catch (error) {
+				logger.logError(
+					'Failed to create Mermaid file',
+					error instanceof Error ? error : new Error(String(error)),
+				);
+				vscode.window.showErrorMessage(
+					`Failed to create Mermaid file: ${error}`,
+				);
+			}
+		},
 	);
 
 	const copyDiagramCodeCommand = vscode.commands.registerCommand(
@@ -249,7 +433,7 @@ export function activate(context: vscode.ExtensionContext) {
 					return;
 				}
 
-				const blockCode = getMermaidBlockAtLine(document, targetLine);
+				const blockCode = findMermaidBlockAtLine(document, targetLine)?.code;
 				if (!blockCode) {
 					vscode.window.showInformationMessage(
 						'No Mermaid diagram found at this location to copy.',
@@ -422,6 +606,7 @@ export function activate(context: vscode.ExtensionContext) {
 	const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(
 		(e) => {
 			gutterDecorator.updateForDocument(e.document);
+			diagnostics.update(e.document);
 
 			const config = vscode.workspace.getConfiguration('mermaidLivePreview');
 			const autoRefresh = config.get<boolean>('autoRefresh', true);
@@ -456,6 +641,14 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		});
 
+	const openDocumentSubscription = vscode.workspace.onDidOpenTextDocument(
+		(document) => diagnostics.update(document),
+	);
+
+	const closeDocumentSubscription = vscode.workspace.onDidCloseTextDocument(
+		(document) => diagnostics.clear(document),
+	);
+
 	const visibleEditorsSubscription =
 		vscode.window.onDidChangeVisibleTextEditors((editors) => {
 			for (const editor of editors) {
@@ -492,8 +685,14 @@ export function activate(context: vscode.ExtensionContext) {
 		showPreviewToSideCommand,
 		showDiagramAtPositionCommand,
 		copyDiagramCodeCommand,
+		exportAllDiagramsCommand,
+		goToMatchingBlockEndCommand,
+		insertDiagramCommand,
+		newMermaidFileCommand,
 		changeDocumentSubscription,
 		changeActiveEditorSubscription,
+		openDocumentSubscription,
+		closeDocumentSubscription,
 		visibleEditorsSubscription,
 		selectionChangeSubscription,
 	);
@@ -1,6 +1,25 @@
 import * as vscode from 'vscode';
+import { getMermaidBlocks, type MermaidBlock } from './mermaidBlocks';
+import {
+	findBlockPairs,
+	findDiagramHeader,
+	getBaseDiagramType,
+	SECTIONED_DIAGRAM_TYPES,
+} from './mermaidSyntax';
 import { Logger } from './util/logger';
 
+// Diagram types whose structure is given by indentation alone
+const INDENTED_TYPES = new Set(['mindmap', 'kanban', 'treemap']);
+const REGION_START = /^%%\s*#?region\b/;
+const REGION_END = /^%%\s*#?endregion\b/;
+
+/**
+ * Folding for every block construct Mermaid has: keyword blocks closed by `end`,
+ * brace blocks closed by `}`, `else`/`and`/`option` sections, multi-line notes,
+ * gantt and journey sections, indentation in mind maps and kanban boards, front
+ * matter, multi-line directives, comment runs and `%% region` markers. Works in
+ * `.mmd` files and in mermaid fences inside markdown.
+ */
 export class MermaidFoldingProvider implements vscode.FoldingRangeProvider {
 	private readonly logger: Logger;
 
@@ -15,12 +34,9 @@ export class MermaidFoldingProvider implements vscode.FoldingRangeProvider {
 	): vscode.ProviderResult<vscode.FoldingRange[]> {
 		try {
 			const foldingRanges: vscode.FoldingRange[] = [];
-			const text = document.getText();
-			const lines = text.split('\n');
-
-			const stack: Array<{ keyword: string; startLine: number }> = [];
 
-			for (let i = 0; i < lines.length; i++) {
+			// Ranges never span diagrams
+			for (const block of getMermaidBlocks(document)) {
 				if (token.isCancellationRequested) {
 					this.logger.logDebug(
 						'FoldingProvider',
@@ -28,35 +44,7 @@ export class MermaidFoldingProvider implements vscode.FoldingRangeProvider {
 					);
 					return [];
 				}
-
-				const line = lines[i];
-				const trimmed = line.trim();
-
-				// Check for opening keywords
-				if (
-					/^(subgraph|box|alt|loop|opt|par|rect)\b/.test(trimmed) ||
-					/^class\s+\w+\s*\{/.test(trimmed) ||
-					/^note\s+(left of|right of)/.test(trimmed)
-				) {
-					const keyword = trimmed.split(/\s+/)[0];
-					stack.push({ keyword, startLine: i });
-				}
-				// Check for closing keywords
-				else if (/^(end|end note|\})/.test(trimmed)) {
-					if (stack.length > 0) {
-						const start = stack.pop();
-						if (start) {
-							// Create folding range from start to current line
-							foldingRanges.push(
-								new vscode.FoldingRange(
-									start.startLine,
-									i,
-									vscode.FoldingRangeKind.Region,
-								),
-							);
-						}
-					}
-				}
+				foldingRanges.push(...blockFoldingRanges(block));
 			}
 
 			return foldingRanges;
@@ -71,3 +59,147 @@ export class MermaidFoldingProvider implements vscode.FoldingRangeProvider {
 		}
 	}
 }
+
+function blockFoldingRanges(block: MermaidBlock): vscode.FoldingRange[] {
+	const lines = block.contentLines;
+	const texts = lines.map((contentLine) => contentLine.text);
+	const ranges: vscode.FoldingRange[] = [];
+	// Start and end are indexes into the diagram's lines
+	const fold = (start: number, end: number, kind?: vscode.FoldingRangeKind) => {
+		if (end > start) {
+			ranges.push(
+				new vscode.FoldingRange(lines[start].line, lines[end].line, kind),
+			);
+		}
+	};
+
+	const header = findDiagramHeader(texts);
+	const baseType = header ? getBaseDiagramType(header.type) : undefined;
+	const isSectioned = !!baseType && SECTIONED_DIAGRAM_TYPES.has(baseType);
+	const isIndented = !!baseType && INDENTED_TYPES.has(baseType);
+
+	let first = texts.findIndex((text) => text.trim() !== '');
+	if (first >= 0 && texts[first].trim() === '---') {
+		const close = texts.findIndex(
+			(text, index) => index > first && text.trim() === '---',
+		);
+		if (close > 0) {
+			fold(first, close);
+			first = close + 1;
+		}
+	}
+
+	const regions: number[] = [];
+	let directiveStart: number | undefined;
+	let commentStart: number | undefined;
+	let sectionStart: number | undefined;
+	let lastStatement = -1;
+
+	for (let i = Math.max(first, 0); i < lines.length; i++) {
+		const trimmed = texts[i].trim();
+
+		if (directiveStart !== undefined) {
+			if (trimmed.includes('}%%')) {
+				fold(directiveStart, i);
+				directiveStart = undefined;
+			}
+			continue;
+		}
+
+		const isRegionMarker =
+			REGION_START.test(trimmed) || REGION_END.test(trimmed);
+		const isComment =
+			trimmed.startsWith('%%') && !trimmed.startsWith('%%{') && !isRegionMarker;
+		if (isComment) {
+			commentStart ??= i;
+			continue;
+		}
+		if (commentStart !== undefined) {
+			fold(commentStart, i - 1, vscode.FoldingRangeKind.Comment);
+			commentStart = undefined;
+		}
+
+		if (trimmed.startsWith('%%{') && !trimmed.includes('}%%')) {
+			directiveStart = i;
+			continue;
+		}
+		if (REGION_START.test(trimmed)) {
+			regions.push(i);
+			continue;
+		}
+		if (REGION_END.test(trimmed)) {
+			const start = regions.pop();
+			if (start !== undefined) {
+				fold(start, i, vscode.FoldingRangeKind.Region);
+			}
+			continue;
+		}
+		if (isSectioned && trimmed && i !== header?.line) {
+			if (/^section\b/.test(trimmed)) {
+				if (sectionStart !== undefined) {
+					fold(sectionStart, lastStatement);
+				}
+				sectionStart = i;
+			}
+			lastStatement = i;
+		}
+	}
+
+	if (commentStart !== undefined) {
+		fold(commentStart, lines.length - 1, vscode.FoldingRangeKind.Comment);
+	}
+	if (sectionStart !== undefined) {
+		fold(sectionStart, lastStatement);
+	}
+	if (!isSectioned && !isIndented) {
+		for (const pair of findBlockPairs(texts)) {
+			pair.sections.forEach((section, index) => {
+				fold(section, (pair.sections[index + 1] ?? pair.close) - 1);
+			});
+			fold(pair.open, pair.close, vscode.FoldingRangeKind.Region);
+		}
+	}
+	if (isIndented && header) {
+		for (const [start, end] of indentationRanges(texts, header.line + 1)) {
+			fold(start, end);
+		}
+	}
+
+	return ranges;
+}
+
+/**
+ * Line pairs for each line whose following lines are indented deeper than it,
+ * ending at the last of those lines.
+ */
+function indentationRanges(
+	texts: readonly string[],
+	from: number,
+): Array<[number, number]> {
+	const ranges: Array<[number, number]> = [];
+	const stack: Array<{ indent: number; line: number }> = [];
+	let previous = -1;
+
+	const closeDeeper = (indent: number) => {
+		while (stack.length && stack[stack.length - 1].indent >= indent) {
+			const open = stack.pop();
+			if (open && previous > open.line) {
+				ranges.push([open.line, previous]);
+			}
+		}
+	};
+
+	for (let i = from; i < texts.length; i++) {
+		const text = texts[i];
+		const trimmed = text.trim();
+		if (!trimmed || trimmed.startsWith('%%')) {
+			continue;
+		}
+		const indent = text.length - text.trimStart().length;
+		closeDeeper(indent);
+		stack.push({ indent, line: i });
+		previous = i;
+	}
+	closeDeeper(0);
+	return ranges;
+}
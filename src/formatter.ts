@@ -0,0 +1,321 @@
+import * as vscode from 'vscode';
+import {
+	type DiagramFamily,
+	findArrows,
+	getDiagramFamily,
+} from './diagramModel';
+import { getMermaidBlocks, type MermaidBlock } from './mermaidBlocks';
+import {
+	findDiagramHeader,
+	getBaseDiagramType,
+	MIDDLE_KEYWORDS,
+	matchBlockBoundary,
+	SECTIONED_DIAGRAM_TYPES,
+} from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+export type ArrowSpacing = 'spaced' | 'compact' | 'preserve';
+
+type FormatSettings = {
+	// One level of indentation
+	indent: string;
+	arrowSpacing: ArrowSpacing;
+};
+
+type BlockFrame = {
+	// Class members, entity attributes and note text hold no statements
+	isBody: boolean;
+};
+
+// Diagram types whose indentation carries no meaning and can be rewritten.
+// Mind maps, kanban boards and treemaps use indentation for structure.
+const REINDENTED_TYPES = new Set([
+	'flowchart',
+	'sequenceDiagram',
+	'classDiagram',
+	'stateDiagram',
+	'erDiagram',
+	'gantt',
+	'journey',
+	'timeline',
+	'pie',
+	'quadrantChart',
+	'gitGraph',
+	'xychart',
+]);
+
+/**
+ * Formats Mermaid source: indentation by block nesting, spacing around arrows,
+ * runs of blank lines and trailing whitespace. Only lines that change are edited,
+ * and formatting is idempotent, so it is safe to use with format on save.
+ */
+export class MermaidFormatter
+	implements
+		vscode.DocumentFormattingEditProvider,
+		vscode.DocumentRangeFormattingEditProvider
+{
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideDocumentFormattingEdits(
+		document: vscode.TextDocument,
+		options: vscode.FormattingOptions,
+		token: vscode.CancellationToken,
+	): vscode.ProviderResult<vscode.TextEdit[]> {
+		return this.format(document, options, token);
+	}
+
+	provideDocumentRangeFormattingEdits(
+		document: vscode.TextDocument,
+		range: vscode.Range,
+		options: vscode.FormattingOptions,
+		token: vscode.CancellationToken,
+	): vscode.ProviderResult<vscode.TextEdit[]> {
+		// Nesting depends on the lines around the selection, so format whole
+		// diagrams and keep the edits inside the selection
+		return this.format(document, options, token).filter(
+			(edit) =>
+				edit.range.start.line >= range.start.line &&
+				edit.range.start.line <= range.end.line,
+		);
+	}
+
+	private format(
+		document: vscode.TextDocument,
+		options: vscode.FormattingOptions,
+		token: vscode.CancellationToken,
+	): vscode.TextEdit[] {
+		try {
+			const settings = getFormatSettings(document.uri, options);
+			const edits: vscode.TextEdit[] = [];
+			for (const block of getMermaidBlocks(document)) {
+				if (token.isCancellationRequested) {
+					return [];
+				}
+				edits.push(...this.formatBlock(document, block, settings));
+			}
+			return edits;
+		} catch (error) {
+			this.logger.logDebug('Formatter', 'Failed to format document', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return [];
+		}
+	}
+
+	private formatBlock(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		settings: FormatSettings,
+	): vscode.TextEdit[] {
+		const formatted = formatDiagramLines(
+			block.contentLines.map((contentLine) => contentLine.text),
+			settings,
+		);
+		const lastLine = document.lineCount - 1;
+		const edits: vscode.TextEdit[] = [];
+
+		block.contentLines.forEach((contentLine, index) => {
+			const text = formatted[index];
+			if (text === undefined) {
+				// Keep the empty last line of a file, which holds its final newline
+				if (contentLine.line < lastLine) {
+					edits.push(
+						vscode.TextEdit.delete(
+							new vscode.Range(contentLine.line, 0, contentLine.line + 1, 0),
+						),
+					);
+				}
+			} else if (text !== contentLine.text) {
+				edits.push(
+					vscode.TextEdit.replace(
+						new vscode.Range(
+							contentLine.line,
+							contentLine.character,
+							contentLine.line,
+							contentLine.character + contentLine.text.length,
+						),
+						text,
+					),
+				);
+			}
+		});
+		return edits;
+	}
+}
+
+function getFormatSettings(
+	resource: vscode.Uri,
+	options: vscode.FormattingOptions,
+): FormatSettings {
+	const config = vscode.workspace.getConfiguration(
+		'mermaidLivePreview',
+		resource,
+	);
+	const indentSize = config.get<number | null>('formatIndentSize', null);
+	const arrowSpacing = config.get<ArrowSpacing>('formatArrowSpacing', 'spaced');
+
+	return {
+		indent: options.insertSpaces
+			? ' '.repeat(Math.min(Math.max(indentSize || options.tabSize || 4, 1), 8))
+			: '\t',
+		arrowSpacing: ['spaced', 'compact', 'preserve'].includes(arrowSpacing)
+			? arrowSpacing
+			: 'spaced',
+	};
+}
+
+/**
+ * Formatted text for each line of a diagram, or `undefined` for blank lines to
+ * remove. Front matter, directives and multi-line strings keep their layout.
+ */
+export function formatDiagramLines(
+	lines: readonly string[],
+	settings: FormatSettings,
+): Array<string | undefined> {
+	const formatted: Array<string | undefined> = lines.map((line) =>
+		line.trimEnd(),
+	);
+	// Lines inside multi-line strings, where whitespace is content
+	const verbatim = new Set<number>();
+	const header = findDiagramHeader(lines);
+	const baseType = header ? getBaseDiagramType(header.type) : undefined;
+
+	if (header && baseType && REINDENTED_TYPES.has(baseType)) {
+		const family = getDiagramFamily(header.type);
+		const isSectioned = SECTIONED_DIAGRAM_TYPES.has(baseType);
+		const stack: BlockFrame[] = [];
+		let inSection = false;
+		let inString = false;
+
+		formatted[header.line] = lines[header.line].trim();
+		for (let i = header.line + 1; i < lines.length; i++) {
+			const trimmed = lines[i].trim();
+			if (inString) {
+				verbatim.add(i);
+				formatted[i] = lines[i];
+				inString = countQuotes(trimmed) % 2 === 0;
+				continue;
+			}
+			if (!trimmed) {
+				continue;
+			}
+			// Only flowchart labels can be multi-line markdown strings
+			inString = family === 'flowchart' && countQuotes(trimmed) % 2 === 1;
+
+			let depth = stack.length;
+			let text = trimmed;
+			if (isSectioned) {
+				if (/^section\b/.test(trimmed)) {
+					inSection = true;
+				} else if (inSection) {
+					depth++;
+				}
+			} else {
+				const boundary = matchBlockBoundary(trimmed, header.type);
+				if (boundary?.kind === 'close') {
+					stack.pop();
+					depth = stack.length;
+				} else if (
+					// Sections continue a sequence block at the block's own level
+					family === 'sequence' &&
+					stack.length > 0 &&
+					MIDDLE_KEYWORDS.test(trimmed)
+				) {
+					depth--;
+				}
+
+				if (
+					family &&
+					settings.arrowSpacing !== 'preserve' &&
+					!stack.some((frame) => frame.isBody)
+				) {
+					text = spaceArrows(trimmed, family, settings.arrowSpacing);
+				}
+
+				if (boundary?.kind === 'open') {
+					stack.push({
+						isBody:
+							boundary.keyword === 'note' ||
+							(family === 'class' && boundary.keyword === 'class') ||
+							family === 'er',
+					});
+				}
+			}
+
+			formatted[i] = settings.indent.repeat(depth + 1) + text;
+		}
+	}
+
+	return collapseBlankLines(formatted, verbatim);
+}
+
+/**
+ * Puts exactly one space (or none, for `compact`) between each arrow and the
+ * text around it. Circle and cross ends (`--o`, `--x`) keep their space so they
+ * are not read as part of the next identifier.
+ */
+function spaceArrows(
+	text: string,
+	family: DiagramFamily,
+	spacing: Exclude<ArrowSpacing, 'preserve'>,
+): string {
+	const arrows = findArrows(text, family);
+	if (!arrows.length) {
+		return text;
+	}
+
+	// ER relationships need the spaces to parse
+	const gap = spacing === 'spaced' || family === 'er' ? ' ' : '';
+	let result = '';
+	let position = 0;
+	for (const arrow of arrows) {
+		const before = text.slice(position, arrow.start).trimEnd();
+		const arrowText = text.slice(arrow.start, arrow.end);
+		result += before;
+		if (before) {
+			result += /^[ox]/.test(arrowText) ? ' ' : gap;
+		}
+		result += arrowText;
+		position = arrow.end;
+		while (text[position] === ' ' || text[position] === '\t') {
+			position++;
+		}
+		if (position < text.length) {
+			result += /[ox]$/.test(arrowText) ? ' ' : gap;
+		}
+	}
+	return result + text.slice(position);
+}
+
+function countQuotes(text: string): number {
+	const comment = text.indexOf('%%');
+	return (comment >= 0 ? text.slice(0, comment) : text).split('"').length - 1;
+}
+
+// Removes blank lines at the start and end of a diagram and collapses runs of
+// blank lines between statements into one
+function collapseBlankLines(
+	lines: Array<string | undefined>,
+	verbatim: ReadonlySet<number>,
+): Array<string | undefined> {
+	let lastContent = lines.length - 1;
+	while (lastContent >= 0 && !lines[lastContent]) {
+		lastContent--;
+	}
+	let previousBlank = true;
+	return lines.map((line, index) => {
+		if (verbatim.has(index) || line) {
+			previousBlank = false;
+			return line;
+		}
+		if (previousBlank || index > lastContent) {
+			return undefined;
+		}
+		previousBlank = true;
+		return '';
+	});
+}
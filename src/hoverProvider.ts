@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import { getExportSettings } from './batchExport';
+import {
+	type DiagramEdge,
+	findIdentifierAt,
+	getNodeDetails,
+} from './diagramModel';
+import {
+	findMermaidBlockAtLine,
+	hashDiagram,
+	type MermaidBlock,
+} from './mermaidBlocks';
+import { findDiagramHeader, findDiagramTitle } from './mermaidSyntax';
+import { MermaidPreviewPanel } from './previewPanel';
+import { Logger } from './util/logger';
+
+type Thumbnail = {
+	dataUri: string;
+	// Display size in CSS pixels
+	width: number;
+	height: number;
+};
+
+const THUMBNAIL_SCALE = 2;
+const THUMBNAIL_MAX_WIDTH = 480;
+const THUMBNAIL_MAX_HEIGHT = 360;
+const MAX_CACHED_THUMBNAILS = 50;
+// Used when renderTimeout is 0, so a diagram that never finishes cannot leave
+// the hover loading forever
+const HOVER_RENDER_TIMEOUT_MS = 10000;
+const MAX_LISTED_EDGES = 10;
+
+/**
+ * Shows a rendered thumbnail when hovering the opening fence of a mermaid block,
+ * or the first line of a Mermaid file. Thumbnails are rendered by an open live
+ * preview, since a hover must not open tabs of its own; without one the hover
+ * describes the diagram in text instead. Thumbnails are cached by diagram source
+ * and Mermaid config (including the theme), so hovering again is instant and a
+ * theme or config change renders a fresh image.
+ *
+ * Hovering a node ID inside the diagram describes the node instead: its label,
+ * shape, style classes and the edges going in and out of it.
+ */
+export class MermaidHoverProvider
+	implements vscode.HoverProvider, vscode.Disposable
+{
+	private readonly logger: Logger;
+	private readonly thumbnails = new Map<string, Promise<Thumbnail>>();
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	async provideHover(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		token: vscode.CancellationToken,
+	): Promise<vscode.Hover | undefined> {
+		const block = findMermaidBlockAtLine(document, position.line);
+		if (!block) {
+			return undefined;
+		}
+		if (position.line === block.startLine) {
+			return this.provideThumbnailHover(document, block, token);
+		}
+		return this.provideNodeHover(block, position);
+	}
+
+	/**
+	 * Drops cached thumbnails, e.g. when the colour theme changes and the
+	 * `vscode` Mermaid theme would render differently.
+	 */
+	public clearCache() {
+		this.thumbnails.clear();
+	}
+
+	public dispose() {
+		this.thumbnails.clear();
+	}
+
+	private async provideThumbnailHover(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+		token: vscode.CancellationToken,
+	): Promise<vscode.Hover | undefined> {
+		if (
+			!vscode.workspace
+				.getConfiguration('mermaidLivePreview', document.uri)
+				.get<boolean>('hoverPreview', true)
+		) {
+			return undefined;
+		}
+
+		const contents = new vscode.MarkdownString();
+		contents.supportHtml = true;
+		try {
+			const thumbnail = this.getThumbnail(document.uri, block);
+			if (thumbnail) {
+				const { dataUri, width, height } = await thumbnail;
+				contents.appendMarkdown(
+					`<img src="${dataUri}" width="${width}" height="${height}" alt="Mermaid diagram">`,
+				);
+			} else {
+				appendSummary(contents, block);
+			}
+		} catch (error) {
+			contents.appendText(
+				`Unable to render diagram: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+		if (token.isCancellationRequested) {
+			return undefined;
+		}
+
+		const args = encodeURIComponent(
+			JSON.stringify([document.uri, block.startLine]),
+		);
+		contents.appendMarkdown(
+			`\n\n[Open Preview](command:mermaidLivePreview.showDiagramAtPosition?${args})`,
+		);
+		contents.isTrusted = {
+			enabledCommands: ['mermaidLivePreview.showDiagramAtPosition'],
+		};
+
+		const lineRange = document.lineAt(block.startLine).range;
+		return new vscode.Hover(contents, lineRange);
+	}
+
+	private provideNodeHover(
+		block: MermaidBlock,
+		position: vscode.Position,
+	): vscode.Hover | undefined {
+		try {
+			const token = findIdentifierAt(block, position.line, position.character);
+			const details =
+				token?.kind === 'node' ? getNodeDetails(block, token.name) : undefined;
+			if (!token || !details) {
+				return undefined;
+			}
+
+			const contents = new vscode.MarkdownString();
+			contents.appendMarkdown(`**\`${token.name}\`**`);
+			if (details.shape) {
+				contents.appendMarkdown(` · ${details.shape}`);
+			}
+			if (details.label && details.label !== token.name) {
+				contents.appendMarkdown('\n\n');
+				contents.appendText(details.label);
+			}
+
+			const applied = [
+				...details.classes.map((name) => `\`:::${name}\``),
+				...details.styles.map((style) => `\`${style.replace(/`/g, '')}\``),
+			];
+			if (applied.length) {
+				contents.appendMarkdown(`\n\nStyled with ${applied.join(', ')}`);
+			}
+
+			appendEdges(contents, 'Outgoing', details.outgoing, 'to');
+			appendEdges(contents, 'Incoming', details.incoming, 'from');
+
+			return new vscode.Hover(
+				contents,
+				new vscode.Range(
+					token.line,
+					token.character,
+					token.line,
+					token.character + token.length,
+				),
+			);
+		} catch (error) {
+			this.logger.logDebug('HoverProvider', 'Failed to describe node', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return undefined;
+		}
+	}
+
+	// Undefined when there is no cached thumbnail and no open preview to render one
+	private getThumbnail(
+		resource: vscode.Uri,
+		block: MermaidBlock,
+	): Promise<Thumbnail> | undefined {
+		const settings = getExportSettings(resource);
+		const key = hashDiagram(
+			[JSON.stringify(settings.mermaidConfig), block.code].join('\n'),
+		);
+
+		const cached = this.thumbnails.get(key);
+		if (cached) {
+			// Move to the end so the least recently hovered diagram is evicted first
+			this.thumbnails.delete(key);
+			this.thumbnails.set(key, cached);
+			return cached;
+		}
+
+		const preview = MermaidPreviewPanel.findRenderer();
+		if (!preview) {
+			return undefined;
+		}
+
+		const thumbnail = this.renderThumbnail(preview, block.code, {
+			mermaidConfig: settings.mermaidConfig,
+			timeout: settings.renderTimeout || HOVER_RENDER_TIMEOUT_MS,
+		});
+		this.thumbnails.set(key, thumbnail);
+		// Failures are not cached so the next hover retries, e.g. after a timeout
+		thumbnail.catch(() => this.thumbnails.delete(key));
+
+		while (this.thumbnails.size > MAX_CACHED_THUMBNAILS) {
+			const oldest = this.thumbnails.keys().next().value;
+			if (oldest === undefined) {
+				break;
+			}
+			this.thumbnails.delete(oldest);
+		}
+		return thumbnail;
+	}
+
+	private async renderThumbnail(
+		preview: MermaidPreviewPanel,
+		code: string,
+		options: { mermaidConfig: Record<string, unknown>; timeout: number },
+	): Promise<Thumbnail> {
+		try {
+			const data = await preview.renderImage(code, {
+				format: 'png',
+				mermaidConfig: options.mermaidConfig,
+				scale: THUMBNAIL_SCALE,
+				timeout: options.timeout,
+			});
+			return createThumbnail(data);
+		} catch (error) {
+			this.logger.logDebug('HoverProvider', 'Failed to render thumbnail', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			throw error;
+		}
+	}
+}
+
+// Text fallback when no preview is open to render a thumbnail
+function appendSummary(contents: vscode.MarkdownString, block: MermaidBlock) {
+	const lines = block.contentLines.map((contentLine) => contentLine.text);
+	const statements = lines.filter((line) => {
+		const trimmed = line.trim();
+		return trimmed && !trimmed.startsWith('%%');
+	}).length;
+	const title = findDiagramTitle(lines);
+
+	contents.appendMarkdown(
+		`**${findDiagramHeader(lines)?.type ?? 'Mermaid diagram'}**`,
+	);
+	if (title) {
+		contents.appendMarkdown(' · ');
+		contents.appendText(title);
+	}
+	contents.appendMarkdown(
+		` · ${statements} ${statements === 1 ? 'line' : 'lines'}`,
+	);
+	contents.appendMarkdown(
+		'\n\n*Thumbnails are shown while a live preview is open. Open the preview to see this diagram here.*',
+	);
+}
+
+function appendEdges(
+	contents: vscode.MarkdownString,
+	title: string,
+	edges: DiagramEdge[],
+	end: 'from' | 'to',
+) {
+	if (!edges.length) {
+		return;
+	}
+	contents.appendMarkdown(`\n\n${title}:\n`);
+	for (const edge of edges.slice(0, MAX_LISTED_EDGES)) {
+		contents.appendMarkdown(`\n- ${end === 'to' ? '→' : '←'} \`${edge[end]}\``);
+		if (edge.label) {
+			contents.appendMarkdown(' — ');
+			contents.appendText(edge.label);
+		}
+	}
+	if (edges.length > MAX_LISTED_EDGES) {
+		contents.appendMarkdown(`\n- …and ${edges.length - MAX_LISTED_EDGES} more`);
+	}
+}
+
+// Scales the PNG down to fit the hover, reading its size from the IHDR chunk
+function createThumbnail(data: Buffer): Thumbnail {
+	const pixelWidth = data.length >= 24 ? data.readUInt32BE(16) : 0;
+	const pixelHeight = data.length >= 24 ? data.readUInt32BE(20) : 0;
+	const width = pixelWidth / THUMBNAIL_SCALE || THUMBNAIL_MAX_WIDTH;
+	const height = pixelHeight / THUMBNAIL_SCALE || THUMBNAIL_MAX_HEIGHT;
+	const ratio = Math.min(
+		1,
+		THUMBNAIL_MAX_WIDTH / width,
+		THUMBNAIL_MAX_HEIGHT / height,
+	);
+
+	return {
+		dataUri: `data:image/png;base64,${data.toString('base64')}`,
+		width: Math.max(1, Math.round(width * ratio)),
+		height: Math.max(1, Math.round(height * ratio)),
+	};
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { getMermaidBlocks } from './mermaidBlocks';
+import { Logger } from './util/logger';
+
+// `click A href "url"` and the shorthand `click A "url"`, capturing the URL
+const CLICK_HREF = /^(\s*click\s+[^\s"]+\s+(?:href\s+)?")([^"]*)"/;
+const QUOTED_STRING = /"([^"]*)"/g;
+// Paths starting with `./`, `../` or `/`, or with at least one directory, not
+// preceded by anything that would make them part of a URL or a longer word
+const PATH_PATTERN =
+	/(?<![\w:/.@~-])(?:(?:\.{1,2}\/|\/)(?:[\w@-][\w@.-]*\/)*|(?:[\w@-][\w@.-]*\/)+)[\w@.-]*[\w@-](?:#[\w.-]*)?/g;
+const URL_SCHEME = /^[a-z][a-z\d+.-]+:/i;
+const EXTERNAL_SCHEMES = new Set(['http', 'https', 'mailto']);
+
+/**
+ * Makes `click` hrefs and workspace paths mentioned in a diagram clickable. The
+ * href of a `click` statement is always a link; other paths, such as those in
+ * node labels or `call` arguments, only when the file exists, so words like
+ * `read/write` stay plain text.
+ */
+export class MermaidLinkProvider implements vscode.DocumentLinkProvider {
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	async provideDocumentLinks(
+		document: vscode.TextDocument,
+		token: vscode.CancellationToken,
+	): Promise<vscode.DocumentLink[]> {
+		try {
+			const links: vscode.DocumentLink[] = [];
+
+			for (const block of getMermaidBlocks(document)) {
+				for (const contentLine of block.contentLines) {
+					const text = contentLine.text;
+					if (text.trim().startsWith('%%')) {
+						continue;
+					}
+					const rangeOf = (start: number, length: number) =>
+						new vscode.Range(
+							contentLine.line,
+							contentLine.character + start,
+							contentLine.line,
+							contentLine.character + start + length,
+						);
+
+					let scanFrom = 0;
+					const click = CLICK_HREF.exec(text);
+					if (click) {
+						const target = resolveLinkTarget(document.uri, click[2]);
+						if (target) {
+							links.push(
+								createLink(rangeOf(click[1].length, click[2].length), target),
+							);
+						}
+						scanFrom = click[0].length;
+					}
+
+					const rest = text.slice(scanFrom);
+					if (/^\s*click\s/.test(text)) {
+						// URLs passed to `call` callbacks or in later arguments
+						for (const match of rest.matchAll(QUOTED_STRING)) {
+							const url = match[1];
+							if (URL_SCHEME.test(url) && match.index !== undefined) {
+								const target = resolveLinkTarget(document.uri, url);
+								if (target) {
+									links.push(
+										createLink(
+											rangeOf(scanFrom + match.index + 1, url.length),
+											target,
+										),
+									);
+								}
+							}
+						}
+					}
+
+					for (const match of rest.matchAll(PATH_PATTERN)) {
+						if (token.isCancellationRequested) {
+							return [];
+						}
+						const target = await findWorkspaceFile(document.uri, match[0]);
+						if (target && match.index !== undefined) {
+							links.push(
+								createLink(
+									rangeOf(scanFrom + match.index, match[0].length),
+									target,
+								),
+							);
+						}
+					}
+				}
+			}
+
+			return links;
+		} catch (error) {
+			this.logger.logDebug('LinkProvider', 'Failed to find document links', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return [];
+		}
+	}
+}
+
+/**
+ * Resolves a link written in a diagram: URLs as they are, `/path` against the
+ * workspace folder and other paths against the document's folder, or the
+ * workspace folder for untitled documents. Returns undefined for links that
+ * only point within the page.
+ */
+export function resolveLinkTarget(
+	resource: vscode.Uri,
+	href: string,
+): vscode.Uri | undefined {
+	const link = href.trim();
+	if (!link || link.startsWith('#')) {
+		return undefined;
+	}
+	if (URL_SCHEME.test(link)) {
+		try {
+			return vscode.Uri.parse(link, true);
+		} catch {
+			return undefined;
+		}
+	}
+
+	const base = link.startsWith('/')
+		? getWorkspaceRoot(resource)
+		: getDocumentFolder(resource);
+	return base ? joinLink(base, link) : undefined;
+}
+
+/**
+ * Whether a link should leave VS Code for the browser or mail client rather
+ * than open in the editor.
+ */
+export function isExternalLink(target: vscode.Uri): boolean {
+	return EXTERNAL_SCHEMES.has(target.scheme);
+}
+
+function createLink(range: vscode.Range, target: vscode.Uri) {
+	const link = new vscode.DocumentLink(range, target);
+	link.tooltip = isExternalLink(target) ? 'Open link' : 'Open file';
+	return link;
+}
+
+// Tries the document's folder first, then the workspace folder
+async function findWorkspaceFile(
+	resource: vscode.Uri,
+	text: string,
+): Promise<vscode.Uri | undefined> {
+	const candidates = [resolveLinkTarget(resource, text)];
+	const root = getWorkspaceRoot(resource);
+	if (root && !text.startsWith('.') && !text.startsWith('/')) {
+		candidates.push(joinLink(root, text));
+	}
+
+	for (const candidate of candidates) {
+		if (!candidate) {
+			continue;
+		}
+		try {
+			const stat = await vscode.workspace.fs.stat(
+				candidate.with({ fragment: '' }),
+			);
+			if (stat.type & vscode.FileType.File) {
+				return candidate;
+			}
+		} catch {
+			// Not a file, try the next candidate
+		}
+	}
+	return undefined;
+}
+
+// Keeps a `#fragment` such as `#L10` on the resulting URI
+function joinLink(base: vscode.Uri, link: string): vscode.Uri {
+	const hash = link.indexOf('#');
+	const linkPath = hash >= 0 ? link.slice(0, hash) : link;
+	const fragment = hash >= 0 ? link.slice(hash + 1) : '';
+	return vscode.Uri.joinPath(base, linkPath).with({ fragment });
+}
+
+function getDocumentFolder(resource: vscode.Uri): vscode.Uri | undefined {
+	if (resource.scheme === 'untitled') {
+		return getWorkspaceRoot(resource);
+	}
+	return vscode.Uri.joinPath(resource, '..');
+}
+
+function getWorkspaceRoot(resource: vscode.Uri): vscode.Uri | undefined {
+	return (
+		vscode.workspace.getWorkspaceFolder(resource)?.uri ??
+		vscode.workspace.workspaceFolders?.[0]?.uri
+	);
+}
@@ -0,0 +1,297 @@
+import { createHash } from 'node:crypto';
+import type * as vscode from 'vscode';
+
+export type MermaidBlockLine = {
+	// Document line and the column where the diagram text starts on it, after
+	// blockquote markers, list indentation and fence indentation are removed
+	line: number;
+	character: number;
+	text: string;
+};
+
+export type MermaidBlock = {
+	code: string;
+	startLine: number;
+	endLine: number;
+	// Document line of the first line of `code` (after trimming), used to map
+	// Mermaid-relative line numbers back into the document
+	codeStartLine: number;
+	contentLines: MermaidBlockLine[];
+};
+
+type OpenFence = {
+	char: string;
+	length: number;
+	isMermaid: boolean;
+	startLine: number;
+	quoteDepth: number;
+	// Column (after blockquote markers) where the enclosing list item content starts
+	containerIndent: number;
+	fenceIndent: number;
+	contentLines: MermaidBlockLine[];
+};
+
+const blockCache = new WeakMap<
+	vscode.TextDocument,
+	{
+		version: number;
+		languageId: string;
+		blocks: MermaidBlock[];
+		// Including diagrams with no code yet
+		allBlocks: MermaidBlock[];
+	}
+>();
+
+const QUOTE_MARKER = /^ {0,3}> ?/;
+const LIST_MARKER = /^( {0,3})([-+*]|\d{1,9}[.)])( {1,4}|$)/;
+const FENCE_OPEN = /^(`{3,}|~{3,})(.*)$/;
+
+export function hashDiagram(code: string): string {
+	return createHash('sha1').update(code).digest('hex');
+}
+
+/**
+ * Returns the Mermaid diagrams in a document, cached per document version. Every
+ * feature that needs diagram locations goes through here so they agree on what
+ * counts as a diagram.
+ */
+export function getMermaidBlocks(
+	document: vscode.TextDocument,
+): MermaidBlock[] {
+	return getCachedBlocks(document).blocks;
+}
+
+/**
+ * Finds the diagram containing a document line. Diagrams with no code yet, such
+ * as an empty `.mmd` file or an empty mermaid fence, are only found with
+ * `includeEmpty`, for features like completion that help start a diagram.
+ */
+export function findMermaidBlockAtLine(
+	document: vscode.TextDocument,
+	line: number,
+	includeEmpty = false,
+): MermaidBlock | undefined {
+	const cached = getCachedBlocks(document);
+	return (includeEmpty ? cached.allBlocks : cached.blocks).find(
+		(block) => line >= block.startLine && line <= block.endLine,
+	);
+}
+
+function getCachedBlocks(document: vscode.TextDocument) {
+	const cached = blockCache.get(document);
+	if (
+		cached &&
+		cached.version === document.version &&
+		cached.languageId === document.languageId
+	) {
+		return cached;
+	}
+
+	const allBlocks = scanMermaidBlocks(
+		document.getText(),
+		document.languageId,
+		true,
+	);
+	const entry = {
+		version: document.version,
+		languageId: document.languageId,
+		blocks: allBlocks.filter((block) => block.code),
+		allBlocks,
+	};
+	blockCache.set(document, entry);
+	return entry;
+}
+
+export function scanMermaidBlocks(
+	text: string,
+	languageId: string,
+	includeEmpty = false,
+): MermaidBlock[] {
+	const lines = text.split(/\r?\n/);
+
+	// For standalone .mmd or .mermaid files, treat entire content as one diagram
+	const blocks =
+		languageId === 'mermaid'
+			? [
+					createBlock(
+						0,
+						lines.length - 1,
+						lines.map((lineText, line) => ({
+							line,
+							character: 0,
+							text: lineText,
+						})),
+					),
+				]
+			: scanMarkdownFences(lines);
+	return includeEmpty ? blocks : blocks.filter((block) => block.code);
+}
+
+function stripQuoteMarkers(
+	lineText: string,
+	maxDepth = Number.POSITIVE_INFINITY,
+): { depth: number; rest: string; consumed: number } {
+	let depth = 0;
+	let rest = lineText;
+	let consumed = 0;
+	while (depth < maxDepth) {
+		const marker = QUOTE_MARKER.exec(rest);
+		if (!marker) {
+			break;
+		}
+		depth++;
+		consumed += marker[0].length;
+		rest = rest.slice(marker[0].length);
+	}
+	return { depth, rest, consumed };
+}
+
+function leadingSpaces(value: string): number {
+	return value.length - value.trimStart().length;
+}
+
+function stripSpaces(value: string, max: number): number {
+	let count = 0;
+	while (count < max && value[count] === ' ') {
+		count++;
+	}
+	return count;
+}
+
+/**
+ * CommonMark-style fenced code block scan. Tracks every fence (not only mermaid
+ * ones) so a mermaid example nested inside a ````markdown fence is not picked up,
+ * and follows blockquote and list item containers.
+ */
+function scanMarkdownFences(lines: string[]): MermaidBlock[] {
+	const blocks: MermaidBlock[] = [];
+	let fence: OpenFence | undefined;
+	let listIndents: number[] = [];
+	let lastQuoteDepth = 0;
+
+	const closeFence = (endLine: number) => {
+		if (fence?.isMermaid) {
+			blocks.push(createBlock(fence.startLine, endLine, fence.contentLines));
+		}
+		fence = undefined;
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const lineText = lines[i];
+
+		if (fence) {
+			const quote = stripQuoteMarkers(lineText, fence.quoteDepth);
+			const rest = quote.rest;
+			const isBlank = rest.trim() === '';
+			const leftContainer =
+				quote.depth < fence.quoteDepth ||
+				(!isBlank && leadingSpaces(rest) < fence.containerIndent);
+
+			if (leftContainer) {
+				// The blockquote or list item ended, which implicitly closes the fence
+				closeFence(i - 1);
+			} else {
+				const containerSkip = stripSpaces(rest, fence.containerIndent);
+				const body = rest.slice(containerSkip);
+				const closing = /^ {0,3}(`{3,}|~{3,})[ \t]*$/.exec(body);
+				if (
+					closing &&
+					closing[1][0] === fence.char &&
+					closing[1].length >= fence.length
+				) {
+					closeFence(i);
+					continue;
+				}
+
+				const fenceSkip = stripSpaces(body, fence.fenceIndent);
+				fence.contentLines.push({
+					line: i,
+					character: quote.consumed + containerSkip + fenceSkip,
+					text: body.slice(fenceSkip),
+				});
+				continue;
+			}
+		}
+
+		const quote = stripQuoteMarkers(lineText);
+		let rest = quote.rest;
+		if (quote.depth !== lastQuoteDepth) {
+			listIndents = [];
+			lastQuoteDepth = quote.depth;
+		}
+
+		if (rest.trim() === '') {
+			continue;
+		}
+
+		// Track list item content columns so fences nested in lists are recognised
+		let column = 0;
+		let marker = LIST_MARKER.exec(rest);
+		const indent = leadingSpaces(rest);
+		while (listIndents.length && indent < listIndents[listIndents.length - 1]) {
+			listIndents.pop();
+		}
+		while (marker) {
+			column += marker[0].length;
+			listIndents.push(column);
+			rest = rest.slice(marker[0].length);
+			marker = LIST_MARKER.exec(rest);
+		}
+
+		const containerIndent =
+			column > 0 ? column : (listIndents[listIndents.length - 1] ?? 0);
+		const containerSkip = column > 0 ? 0 : stripSpaces(rest, containerIndent);
+		const body = rest.slice(containerSkip);
+		const fenceIndent = leadingSpaces(body);
+		if (fenceIndent > 3) {
+			continue;
+		}
+
+		const open = FENCE_OPEN.exec(body.slice(fenceIndent));
+		if (!open) {
+			continue;
+		}
+
+		const char = open[1][0];
+		const info = open[2].trim();
+		if (char === '`' && info.includes('`')) {
+			continue;
+		}
+
+		fence = {
+			char,
+			length: open[1].length,
+			isMermaid: info.split(/\s+/)[0] === 'mermaid',
+			startLine: i,
+			quoteDepth: quote.depth,
+			containerIndent,
+			fenceIndent,
+			contentLines: [],
+		};
+	}
+
+	if (fence) {
+		closeFence(lines.length - 1);
+	}
+
+	return blocks;
+}
+
+function createBlock(
+	startLine: number,
+	endLine: number,
+	contentLines: MermaidBlockLine[],
+): MermaidBlock {
+	const code = contentLines
+		.map((line) => line.text)
+		.join('\n')
+		.trim();
+	const firstCodeLine = contentLines.find((line) => line.text.trim() !== '');
+	return {
+		code,
+		startLine,
+		endLine,
+		codeStartLine: firstCodeLine?.line ?? startLine,
+		contentLines,
+	};
+}
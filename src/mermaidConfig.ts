@@ -0,0 +1,337 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { Logger } from './util/logger';
+
+export type MermaidConfig = Record<string, unknown>;
+
+// Defaults the preview has always used; user settings are merged on top
+const DEFAULT_MERMAID_CONFIG: MermaidConfig = {
+	securityLevel: 'loose',
+	flowchart: { useMaxWidth: true, htmlLabels: true },
+};
+
+const CONFIG_FILE_NAMES = ['.mermaidrc.json', 'mermaid.config.json'];
+const CONFIG_FILE_GLOB = `**/{${CONFIG_FILE_NAMES.join(',')}}`;
+// Keys Mermaid expects to hold objects; anything else here breaks rendering
+const OBJECT_KEYS = [
+	'themeVariables',
+	'flowchart',
+	'sequence',
+	'gantt',
+	'journey',
+	'timeline',
+	'class',
+	'state',
+	'er',
+	'pie',
+	'quadrantChart',
+	'xyChart',
+	'requirement',
+	'mindmap',
+	'kanban',
+	'gitGraph',
+	'c4',
+	'sankey',
+	'packet',
+	'block',
+	'radar',
+	'architecture',
+];
+const STRING_KEYS = [
+	'theme',
+	'themeCSS',
+	'fontFamily',
+	'look',
+	'layout',
+	'securityLevel',
+];
+
+type ConfigIssue = {
+	offset: number;
+	length: number;
+	message: string;
+};
+
+export function isPlainObject(value: unknown): value is MermaidConfig {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		Object.getPrototypeOf(value) === Object.prototype
+	);
+}
+
+/**
+ * Recursively merges `override` into `base`. Nested objects are merged key by
+ * key; arrays and primitives in `override` replace the base value.
+ */
+export function deepMerge(
+	base: MermaidConfig,
+	override: MermaidConfig,
+): MermaidConfig {
+	const result: MermaidConfig = { ...base };
+	for (const [key, value] of Object.entries(override)) {
+		if (key === '__proto__' || key === 'constructor' || key === 'prototype') {
+			continue;
+		}
+		const current = result[key];
+		result[key] =
+			isPlainObject(current) && isPlainObject(value)
+				? deepMerge(current, value)
+				: value;
+	}
+	return result;
+}
+
+/**
+ * The options passed to `mermaid.initialize` everywhere diagrams are rendered
+ * (preview, copy and export), minus `theme`, which is resolved separately by
+ * `resolveTheme`. The nearest config file for `resource` wins over the
+ * `mermaidConfig` setting so a repository renders the same for everyone.
+ * Per-diagram `%%{init}%%` directives and front matter `config` are applied by
+ * Mermaid on top of this, so they still win.
+ */
+export function getMermaidConfig(resource?: vscode.Uri): MermaidConfig {
+	const configured = vscode.workspace
+		.getConfiguration('mermaidLivePreview')
+		.get<unknown>('mermaidConfig', {});
+
+	let userConfig: MermaidConfig = {};
+	if (isPlainObject(configured)) {
+		userConfig = configured;
+	} else if (configured !== undefined && configured !== null) {
+		Logger.instance.logWarning(
+			'Ignoring mermaidLivePreview.mermaidConfig because it is not an object',
+		);
+	}
+
+	const merged = deepMerge(
+		deepMerge(DEFAULT_MERMAID_CONFIG, userConfig),
+		MermaidConfigFiles.instance.getConfig(resource) ?? {},
+	);
+	delete merged.theme;
+	merged.startOnLoad = false;
+	return merged;
+}
+
+/**
+ * Serializes a value for embedding in an inline webview script. `<` is escaped
+ * so a `</script>` inside a string value cannot end the script element.
+ */
+export function toScriptLiteral(value: unknown): string {
+	return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Repository-level Mermaid config files (`.mermaidrc.json` or
+ * `mermaid.config.json`). The nearest file in a diagram's folder or its
+ * ancestors applies. Files are loaded up front and kept current by a file
+ * watcher so lookups during rendering stay synchronous.
+ */
+export class MermaidConfigFiles implements vscode.Disposable {
+	private static _instance: MermaidConfigFiles | undefined;
+	private readonly _logger: Logger;
+	private readonly _collection: vscode.DiagnosticCollection;
+	private readonly _watcher: vscode.FileSystemWatcher;
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	// Valid configs keyed by the config file's folder URI
+	private readonly _configs = new Map<string, MermaidConfig>();
+	private _disposables: vscode.Disposable[] = [];
+
+	public readonly onDidChange = this._onDidChange.event;
+
+	private constructor() {
+		this._logger = Logger.instance;
+		this._collection =
+			vscode.languages.createDiagnosticCollection('mermaid-config');
+		this._watcher = vscode.workspace.createFileSystemWatcher(CONFIG_FILE_GLOB);
+		this._disposables.push(
+			this._watcher.onDidCreate((uri) => this._reload(uri)),
+			this._watcher.onDidChange((uri) => this._reload(uri)),
+			this._watcher.onDidDelete((uri) => this._remove(uri)),
+		);
+	}
+
+	static get instance(): MermaidConfigFiles {
+		if (!MermaidConfigFiles._instance) {
+			MermaidConfigFiles._instance = new MermaidConfigFiles();
+		}
+		return MermaidConfigFiles._instance;
+	}
+
+	public async initialize() {
+		try {
+			const uris = await vscode.workspace.findFiles(
+				CONFIG_FILE_GLOB,
+				'**/node_modules/**',
+			);
+			await Promise.all(uris.map((uri) => this._load(uri)));
+			if (uris.length) {
+				this._logger.logInfo('Loaded Mermaid config files', {
+					files: uris.map((uri) => vscode.workspace.asRelativePath(uri)),
+				});
+				this._onDidChange.fire();
+			}
+		} catch (error) {
+			this._logger.logError(
+				'Failed to discover Mermaid config files',
+				error instanceof Error ? error : new Error(String(error)),
+			);
+		}
+	}
+
+	/**
+	 * Config from the config file nearest to `resource`, if any.
+	 */
+	public getConfig(
+		resource: vscode.Uri | undefined,
+	): MermaidConfig | undefined {
+		if (!resource || this._configs.size === 0) {
+			return undefined;
+		}
+
+		let dir = path.posix.dirname(resource.path);
+		while (true) {
+			const config = this._configs.get(resource.with({ path: dir }).toString());
+			if (config) {
+				return config;
+			}
+			const parent = path.posix.dirname(dir);
+			if (parent === dir) {
+				return undefined;
+			}
+			dir = parent;
+		}
+	}
+
+	public dispose() {
+		for (const disposable of this._disposables) {
+			disposable.dispose();
+		}
+		this._disposables = [];
+		this._watcher.dispose();
+		this._collection.dispose();
+		this._onDidChange.dispose();
+		this._configs.clear();
+	}
+
+	private async _reload(uri: vscode.Uri) {
+		await this._load(uri);
+		this._logger.logInfo('Mermaid config file changed', {
+			path: vscode.workspace.asRelativePath(uri),
+		});
+		this._onDidChange.fire();
+	}
+
+	private _remove(uri: vscode.Uri) {
+		this._configs.delete(this._folderKey(uri));
+		this._collection.delete(uri);
+		this._onDidChange.fire();
+	}
+
+	private async _load(uri: vscode.Uri) {
+		const key = this._folderKey(uri);
+		let text: string;
+		try {
+			text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+		} catch (error) {
+			this._configs.delete(key);
+			this._collection.delete(uri);
+			this._logger.logWarning('Failed to read Mermaid config file', {
+				path: uri.fsPath,
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return;
+		}
+
+		const { config, issues } = parseConfigFile(text);
+		// An invalid file is ignored entirely so a typo never breaks rendering
+		if (config && issues.length === 0) {
+			this._configs.set(key, config);
+		} else {
+			this._configs.delete(key);
+		}
+		this._collection.set(
+			uri,
+			issues.map((issue) => {
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(
+						offsetToPosition(text, issue.offset),
+						offsetToPosition(text, issue.offset + issue.length),
+					),
+					issue.message,
+					vscode.DiagnosticSeverity.Error,
+				);
+				diagnostic.source = 'Mermaid';
+				diagnostic.code = 'invalid-config';
+				return diagnostic;
+			}),
+		);
+	}
+
+	private _folderKey(uri: vscode.Uri): string {
+		return uri.with({ path: path.posix.dirname(uri.path) }).toString();
+	}
+}
+
+function parseConfigFile(text: string): {
+	config?: MermaidConfig;
+	issues: ConfigIssue[];
+} {
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		const position = /position (\d+)/.exec(message);
+		return {
+			issues: [
+				{
+					offset: position ? Number(position[1]) : 0,
+					length: 1,
+					message: `Invalid JSON in Mermaid config: ${message}`,
+				},
+			],
+		};
+	}
+
+	if (!isPlainObject(value)) {
+		return {
+			issues: [
+				{
+					offset: 0,
+					length: text.length,
+					message: 'Mermaid config must be a JSON object.',
+				},
+			],
+		};
+	}
+
+	const issues: ConfigIssue[] = [];
+	const report = (key: string, expected: string) => {
+		const offset = text.indexOf(`"${key}"`);
+		issues.push({
+			offset: Math.max(offset, 0),
+			length: offset >= 0 ? key.length + 2 : 1,
+			message: `"${key}" must be ${expected}.`,
+		});
+	};
+	for (const key of OBJECT_KEYS) {
+		if (key in value && !isPlainObject(value[key])) {
+			report(key, 'an object');
+		}
+	}
+	for (const key of STRING_KEYS) {
+		if (key in value && typeof value[key] !== 'string') {
+			report(key, 'a string');
+		}
+	}
+
+	return { config: value, issues };
+}
+
+function offsetToPosition(text: string, offset: number): vscode.Position {
+	const before = text.slice(0, Math.min(offset, text.length));
+	const lines = before.split(/\r?\n/);
+	return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+}
@@ -0,0 +1,445 @@
+/**
+ * Diagram type keywords accepted by Mermaid 11 as the first statement of a diagram.
+ */
+export const DIAGRAM_TYPES: readonly string[] = [
+	'flowchart',
+	'graph',
+	'sequenceDiagram',
+	'classDiagram',
+	'classDiagram-v2',
+	'stateDiagram',
+	'stateDiagram-v2',
+	'erDiagram',
+	'journey',
+	'gantt',
+	'pie',
+	'quadrantChart',
+	'requirementDiagram',
+	'gitGraph',
+	'C4Context',
+	'C4Container',
+	'C4Component',
+	'C4Dynamic',
+	'C4Deployment',
+	'mindmap',
+	'timeline',
+	'zenuml',
+	'sankey',
+	'sankey-beta',
+	'xychart',
+	'xychart-beta',
+	'block',
+	'block-beta',
+	'packet',
+	'packet-beta',
+	'kanban',
+	'architecture',
+	'architecture-beta',
+	'radar-beta',
+	'treemap-beta',
+	'info',
+];
+
+export type DiagramHeader = {
+	type: string;
+	// Zero-based line within the diagram source
+	line: number;
+};
+
+/**
+ * Finds the diagram type declaration, skipping YAML front matter, `%%` comments
+ * and (possibly multi-line) `%%{init}%%` directives.
+ */
+export function findDiagramHeader(
+	lines: readonly string[],
+): DiagramHeader | undefined {
+	let i = 0;
+
+	if (lines[0]?.trim() === '---') {
+		i = 1;
+		while (i < lines.length && lines[i].trim() !== '---') {
+			i++;
+		}
+		i++;
+	}
+
+	let inDirective = false;
+	for (; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (inDirective) {
+			if (trimmed.includes('}%%')) {
+				inDirective = false;
+			}
+			continue;
+		}
+		if (trimmed.startsWith('%%{') && !trimmed.includes('}%%')) {
+			inDirective = true;
+			continue;
+		}
+		if (!trimmed || trimmed.startsWith('%%')) {
+			continue;
+		}
+
+		const type = trimmed.split(/[\s;:]+/)[0];
+		return { type, line: i };
+	}
+
+	return undefined;
+}
+
+// `end` closes keyword blocks and `end note` closes notes; braces close braces
+export type BlockCloser = 'end' | '}';
+
+export type BlockBoundary =
+	| { kind: 'open'; keyword: string; closer: BlockCloser }
+	| { kind: 'close'; closer: BlockCloser };
+
+// Lines that start a new section of an `alt`, `par` or `critical` block
+export const MIDDLE_KEYWORDS = /^(else|and|option)\b/;
+
+// Lines that open a block closed by `end`, per base diagram type
+const END_BLOCK_OPENERS: Readonly<Record<string, RegExp>> = {
+	flowchart: /^subgraph\b/,
+	sequenceDiagram: /^(?:box|alt|loop|opt|par|critical|break|rect)\b/,
+	// Block diagram groups: `block` or `block:id:width`
+	block: /^block(?::\S*)?$/,
+	// Multi-line notes, closed by `end note`
+	stateDiagram: /^note\s+(?:left of|right of)\b[^:]*$/,
+};
+
+// Lines that open a block closed by `}`, per base diagram type
+const BRACE_BLOCK_OPENERS: Readonly<Record<string, RegExp>> = {
+	classDiagram: /^(?:class|namespace)\s[^{}]*\{\s*$/,
+	stateDiagram: /^state\s[^{}]*\{\s*$/,
+	// ER entities, requirement diagram elements and C4 boundaries
+	erDiagram: /^[\w-]+(?:\s*\[[^\]]*\])?\s*\{\s*$/,
+	requirementDiagram: /^[\w-]+\s+[\w-]+\s*\{\s*$/,
+	C4: /^[\w-]+\s*\([^)]*\)\s*\{\s*$/,
+};
+
+/**
+ * Whether a trimmed diagram line opens or closes a nested block (`subgraph` …
+ * `end`, `alt` … `end`, `class X {` … `}`, multi-line notes and so on), and
+ * which closer ends it. Only the block syntax of the given diagram type counts,
+ * so a flowchart node named `rect` or `loop` does not open a block.
+ */
+export function matchBlockBoundary(
+	trimmed: string,
+	diagramType: string,
+): BlockBoundary | undefined {
+	const baseType = getBaseDiagramType(diagramType);
+	const endOpener = END_BLOCK_OPENERS[baseType];
+	const braceOpener =
+		BRACE_BLOCK_OPENERS[baseType.startsWith('C4') ? 'C4' : baseType];
+
+	if (endOpener && /^end\b/.test(trimmed)) {
+		return { kind: 'close', closer: 'end' };
+	}
+	if (braceOpener && trimmed.startsWith('}')) {
+		return { kind: 'close', closer: '}' };
+	}
+
+	if (endOpener?.test(trimmed)) {
+		return { kind: 'open', keyword: trimmed.split(/[\s:]+/)[0], closer: 'end' };
+	}
+	if (braceOpener?.test(trimmed)) {
+		return { kind: 'open', keyword: trimmed.split(/[\s{([]+/)[0], closer: '}' };
+	}
+
+	return undefined;
+}
+
+export type BlockPair = {
+	keyword: string;
+	closer: BlockCloser;
+	// Zero-based lines within the diagram source
+	open: number;
+	close: number;
+	// Lines starting each `else`/`and`/`option` section, in order
+	sections: number[];
+};
+
+// The section keyword each sectioned block accepts
+const SECTION_KEYWORDS: Readonly<Record<string, string>> = {
+	alt: 'else',
+	par: 'and',
+	critical: 'option',
+};
+
+/**
+ * Pairs every block opener after the diagram header with the closer that ends
+ * it. A closer only ends the innermost block of its own kind, so a stray `}`
+ * cannot close an `alt`. Blocks that are never closed are left out.
+ */
+export function findBlockPairs(lines: readonly string[]): BlockPair[] {
+	const header = findDiagramHeader(lines);
+	if (!header) {
+		return [];
+	}
+
+	const pairs: BlockPair[] = [];
+	const stack: Array<Omit<BlockPair, 'close'>> = [];
+	let inDirective = false;
+	for (let i = header.line + 1; i < lines.length; i++) {
+		const trimmed = lines[i].trim();
+		if (inDirective || trimmed.startsWith('%%{')) {
+			inDirective = !trimmed.includes('}%%');
+			continue;
+		}
+		if (trimmed.startsWith('%%')) {
+			continue;
+		}
+
+		const boundary = matchBlockBoundary(trimmed, header.type);
+		if (boundary?.kind === 'open') {
+			stack.push({
+				keyword: boundary.keyword,
+				closer: boundary.closer,
+				open: i,
+				sections: [],
+			});
+		} else if (boundary?.kind === 'close') {
+			let index = stack.length - 1;
+			while (index >= 0 && stack[index].closer !== boundary.closer) {
+				index--;
+			}
+			if (index >= 0) {
+				pairs.push({ ...stack[index], close: i });
+				stack.length = index;
+			}
+		} else {
+			const top = stack[stack.length - 1];
+			const middle = MIDDLE_KEYWORDS.exec(trimmed)?.[1];
+			if (top && middle && SECTION_KEYWORDS[top.keyword] === middle) {
+				top.sections.push(i);
+			}
+		}
+	}
+	return pairs;
+}
+
+/**
+ * Statement keywords per diagram type, as they appear at the start of a line.
+ */
+export const DIAGRAM_KEYWORDS: Readonly<Record<string, readonly string[]>> = {
+	flowchart: [
+		'subgraph',
+		'end',
+		'direction',
+		'style',
+		'classDef',
+		'class',
+		'click',
+		'linkStyle',
+	],
+	sequenceDiagram: [
+		'participant',
+		'actor',
+		'activate',
+		'deactivate',
+		'Note',
+		'loop',
+		'alt',
+		'else',
+		'opt',
+		'par',
+		'and',
+		'critical',
+		'option',
+		'break',
+		'rect',
+		'box',
+		'end',
+		'autonumber',
+		'create',
+		'destroy',
+		'title',
+	],
+	classDiagram: [
+		'class',
+		'namespace',
+		'note',
+		'direction',
+		'classDef',
+		'style',
+		'click',
+		'link',
+		'callback',
+	],
+	stateDiagram: ['state', 'note', 'end note', 'direction', 'classDef', 'class'],
+	gantt: [
+		'title',
+		'dateFormat',
+		'axisFormat',
+		'tickInterval',
+		'excludes',
+		'includes',
+		'todayMarker',
+		'weekday',
+		'section',
+	],
+	journey: ['title', 'section'],
+	pie: ['title', 'showData'],
+	gitGraph: ['commit', 'branch', 'checkout', 'merge', 'cherry-pick'],
+	timeline: ['title', 'section'],
+	quadrantChart: [
+		'title',
+		'x-axis',
+		'y-axis',
+		'quadrant-1',
+		'quadrant-2',
+		'quadrant-3',
+		'quadrant-4',
+	],
+	requirementDiagram: [
+		'requirement',
+		'functionalRequirement',
+		'interfaceRequirement',
+		'performanceRequirement',
+		'physicalRequirement',
+		'designConstraint',
+		'element',
+	],
+	xychart: ['title', 'x-axis', 'y-axis', 'line', 'bar'],
+	block: ['columns', 'block', 'end', 'space'],
+	architecture: ['group', 'service', 'junction'],
+};
+
+/**
+ * Diagram types made of `section` headings followed by `Task: ...` lines.
+ */
+export const SECTIONED_DIAGRAM_TYPES: ReadonlySet<string> = new Set([
+	'gantt',
+	'journey',
+	'timeline',
+]);
+
+/**
+ * The diagram type a header stands for, treating aliases and `-v2`/`-beta`
+ * variants like their base type.
+ */
+export function getBaseDiagramType(diagramType: string): string {
+	return diagramType === 'graph'
+		? 'flowchart'
+		: diagramType.replace(/-(?:v2|beta)$/, '');
+}
+
+/**
+ * Keywords for a diagram type header, see getBaseDiagramType.
+ */
+export function getDiagramKeywords(diagramType: string): readonly string[] {
+	return DIAGRAM_KEYWORDS[getBaseDiagramType(diagramType)] ?? [];
+}
+
+/**
+ * Returns the diagram title from YAML front matter (`title: ...`) or a `title`
+ * statement (gantt, pie, journey and friends), whichever comes first.
+ */
+export function findDiagramTitle(lines: readonly string[]): string | undefined {
+	let i = 0;
+
+	if (lines[0]?.trim() === '---') {
+		for (i = 1; i < lines.length && lines[i].trim() !== '---'; i++) {
+			const match = /^title:\s*(.+)$/.exec(lines[i].trim());
+			if (match) {
+				return match[1].replace(/^(["'])(.*)\1$/, '$2').trim() || undefined;
+			}
+		}
+		i++;
+	}
+
+	for (; i < lines.length; i++) {
+		const match = /^title\s+(.+)$/.exec(lines[i].trim());
+		if (match) {
+			return match[1].trim();
+		}
+	}
+
+	return undefined;
+}
+
+// Words no diagram type accepts as a node or participant ID
+const COMMON_RESERVED_WORDS: readonly string[] = [
+	...DIAGRAM_TYPES,
+	'TB',
+	'TD',
+	'BT',
+	'RL',
+	'LR',
+	'end',
+	'direction',
+	'style',
+	'classDef',
+	'class',
+	'click',
+	'call',
+	'href',
+	'linkStyle',
+	'default',
+	'title',
+	'accTitle',
+	'accDescr',
+];
+
+// Statement keywords of each base diagram type, which are only reserved there:
+// `loop` is a sequence block, but a perfectly good flowchart node ID
+const RESERVED_WORDS_BY_TYPE: Readonly<Record<string, readonly string[]>> = {
+	flowchart: ['subgraph'],
+	sequenceDiagram: [
+		'participant',
+		'actor',
+		'as',
+		'alt',
+		'else',
+		'opt',
+		'loop',
+		'par',
+		'and',
+		'rect',
+		'critical',
+		'option',
+		'break',
+		'box',
+		'note',
+		'over',
+		'left',
+		'right',
+		'of',
+		'activate',
+		'deactivate',
+		'autonumber',
+		'create',
+		'destroy',
+	],
+	classDiagram: ['namespace', 'note'],
+	stateDiagram: ['state', 'note', 'as', 'left', 'right', 'of'],
+	gantt: [
+		'section',
+		'dateFormat',
+		'axisFormat',
+		'excludes',
+		'includes',
+		'todayMarker',
+	],
+	journey: ['section'],
+	timeline: ['section'],
+};
+
+const reservedWordsCache = new Map<string, ReadonlySet<string>>();
+
+/**
+ * Words that are never node or participant IDs in a diagram type: the keywords
+ * shared by every type plus the type's own statement keywords.
+ */
+export function getReservedWords(diagramType: string): ReadonlySet<string> {
+	const baseType = getBaseDiagramType(diagramType);
+	let words = reservedWordsCache.get(baseType);
+	if (!words) {
+		words = new Set([
+			...COMMON_RESERVED_WORDS,
+			...(RESERVED_WORDS_BY_TYPE[baseType] ?? []),
+		]);
+		reservedWordsCache.set(baseType, words);
+	}
+	return words;
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import {
+	findDefinition,
+	findIdentifierAt,
+	findReferences,
+	getDeclarationEnd,
+} from './diagramModel';
+import { findMermaidBlockAtLine } from './mermaidBlocks';
+import { Logger } from './util/logger';
+
+/**
+ * Go to Definition and Find All References for node, participant, state, entity
+ * and style class identifiers. Identifiers are scoped to a single diagram, so
+ * results never cross into another fence in the same markdown file.
+ */
+export class MermaidNavigationProvider
+	implements vscode.DefinitionProvider, vscode.ReferenceProvider
+{
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideDefinition(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.ProviderResult<vscode.LocationLink[]> {
+		try {
+			const block = findMermaidBlockAtLine(document, position.line);
+			const token = block
+				? findIdentifierAt(block, position.line, position.character)
+				: undefined;
+			if (!block || !token) {
+				return undefined;
+			}
+
+			const definition = findDefinition(block, token.name, token.kind);
+			if (!definition) {
+				return undefined;
+			}
+
+			return [
+				{
+					originSelectionRange: tokenRange(token),
+					targetUri: document.uri,
+					// Include the shape and label so the peek view shows what the node is
+					targetRange: new vscode.Range(
+						definition.line,
+						definition.character,
+						definition.line,
+						getDeclarationEnd(block, definition),
+					),
+					targetSelectionRange: tokenRange(definition),
+				},
+			];
+		} catch (error) {
+			this.logger.logDebug('NavigationProvider', 'Failed to find definition', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return undefined;
+		}
+	}
+
+	provideReferences(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		context: vscode.ReferenceContext,
+	): vscode.ProviderResult<vscode.Location[]> {
+		try {
+			const block = findMermaidBlockAtLine(document, position.line);
+			const token = block
+				? findIdentifierAt(block, position.line, position.character)
+				: undefined;
+			if (!block || !token) {
+				return undefined;
+			}
+
+			const definition = findDefinition(block, token.name, token.kind);
+			return findReferences(block, token.name, token.kind)
+				.filter(
+					(reference) => context.includeDeclaration || reference !== definition,
+				)
+				.map(
+					(reference) =>
+						new vscode.Location(document.uri, tokenRange(reference)),
+				);
+		} catch (error) {
+			this.logger.logDebug('NavigationProvider', 'Failed to find references', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return undefined;
+		}
+	}
+}
+
+function tokenRange(token: {
+	line: number;
+	character: number;
+	length: number;
+}): vscode.Range {
+	return new vscode.Range(
+		token.line,
+		token.character,
+		token.line,
+		token.character + token.length,
+	);
+}
@@ -1,16 +1,31 @@
 import * as path from 'node:path';
 import * as vscode from 'vscode';
+import { MermaidDiagnostics } from './diagnostics';
+import {
+	findDefinition,
+	findTextLocation,
+	getIdentifierTokens,
+} from './diagramModel';
+import { type RenderOptions, RenderRequests } from './diagramRenderer';
+import { isExternalLink, resolveLinkTarget } from './linkProvider';
+import {
+	getMermaidBlocks,
+	hashDiagram,
+	type MermaidBlock,
+} from './mermaidBlocks';
+import { getMermaidConfig, toScriptLiteral } from './mermaidConfig';
+import {
+	getConfigFileTheme,
+	getCustomThemes,
+	type PreviewAppearance,
+	resolveTheme,
+	VSCODE_COLORS_SCRIPT,
+} from './theme';
 import { Logger } from './util/logger';
+import { generateNonce } from './util/nonce';
 
-type PreviewAppearance = 'matchVSCode' | 'light' | 'dark';
 type PreviewMode = 'all' | 'single';
 
-type MermaidBlock = {
-	code: string;
-	startLine: number;
-	endLine: number;
-};
-
 type SerializedPanelState = {
 	documentUri: string;
 	mode: PreviewMode;
@@ -22,17 +37,20 @@ type WebviewState = {
 	docStates?: Record<string, unknown>;
 };
 
+type DiagramChange = {
+	index: number;
+	hash: string;
+	code: string;
+};
+
 export class MermaidPreviewPanel {
 	public static readonly viewType = 'mermaidLivePreview';
 	private static readonly _panels = new Set<MermaidPreviewPanel>();
 	private readonly _panel: vscode.WebviewPanel;
 	private readonly _extensionUri: vscode.Uri;
 	private readonly _logger: Logger;
-	private readonly _blockCache = new Map<
-		string,
-		{ version: number; blocks: MermaidBlock[] }
-	>();
 	private readonly _documentUri: string;
+	private readonly _renderRequests = new RenderRequests();
 	private _disposables: vscode.Disposable[] = [];
 	private _updateTimeout: NodeJS.Timeout | undefined;
 	private _firstUpdateRequestTime: number | undefined;
@@ -43,6 +61,18 @@ export class MermaidPreviewPanel {
 	private _singleBlockStartLine: number | undefined;
 	private _singleBlockEndLine: number | undefined;
 	private _isDisposed = false;
+	// The webview document is loaded once; afterwards only changed diagrams are posted
+	private _htmlInitialized = false;
+	private _webviewReady = false;
+	private _renderedHashes: string[] = [];
+	private _renderedTheme: string | undefined;
+	private _renderedAppearance: PreviewAppearance | undefined;
+	private _renderedConfig: string | undefined;
+	private _highlightKey: string | undefined;
+	private _followedBlockIndex: number | undefined;
+	// A theme picked in the dropdown while a config file sets another one. The
+	// config file would win again on the next refresh, so the panel keeps it.
+	private _pickedTheme: string | undefined;
 
 	public static forEachPanel(callback: (panel: MermaidPreviewPanel) => void) {
 		for (const panel of MermaidPreviewPanel._panels) {
@@ -54,6 +84,19 @@ export class MermaidPreviewPanel {
 		return MermaidPreviewPanel._panels.size > 0;
 	}
 
+	/**
+	 * An open preview that has finished loading Mermaid and can render images
+	 * for other features, such as hover thumbnails.
+	 */
+	public static findRenderer(): MermaidPreviewPanel | undefined {
+		for (const panel of MermaidPreviewPanel._panels) {
+			if (panel._webviewReady) {
+				return panel;
+			}
+		}
+		return undefined;
+	}
+
 	public static async revive(
 		panel: vscode.WebviewPanel,
 		extensionUri: vscode.Uri,
@@ -332,6 +375,14 @@ export class MermaidPreviewPanel {
 							line: message.line ?? null,
 							details: message.message ?? 'Unknown error',
 						});
+						if (this._currentDocument && typeof message.hash === 'string') {
+							MermaidDiagnostics.instance.reportRenderError(
+								this._currentDocument,
+								message.hash,
+								typeof message.line === 'number' ? message.line : null,
+								message.message ?? 'Unknown error',
+							);
+						}
 						break;
 					case 'webviewError':
 						this._logger.logError('Webview runtime error', {
@@ -348,6 +399,13 @@ export class MermaidPreviewPanel {
 								documentId: message.documentId ?? 'unknown',
 							},
 						);
+						if (message.status === 'webviewLoaded') {
+							// The webview starts empty and waits for its first diagram update
+							this._renderRequests.rejectAll('Preview was reloaded');
+							this._webviewReady = true;
+							this._renderedHashes = [];
+							this._render();
+						}
 						break;
 					case 'changeAppearance':
 						this._handleAppearanceChange(
@@ -357,6 +415,15 @@ export class MermaidPreviewPanel {
 					case 'showKeyboardShortcuts':
 						this._showKeyboardShortcuts();
 						break;
+					case 'revealSource':
+						this._revealSource(message.index, message.identifier, message.text);
+						break;
+					case 'openLink':
+						this._openLink(message.href);
+						break;
+					case 'renderResult':
+						this._renderRequests.settle(message);
+						break;
 				}
 			},
 			null,
@@ -477,27 +544,29 @@ export class MermaidPreviewPanel {
 		document: vscode.TextDocument,
 		lineNumber: number,
 	) {
-		if (this._mode !== 'single') {
-			return;
-		}
-
 		if (document.uri.toString() !== this._documentUri) {
 			return;
 		}
 
-		this._currentDocument = document;
-
 		if (typeof lineNumber !== 'number') {
 			return;
 		}
 
-		const blocks = this._getMermaidBlocks(document);
+		this._currentDocument = document;
+
+		const blocks = getMermaidBlocks(document);
 		const blockIndex = this._findBlockIndexForLine(
 			document,
 			lineNumber,
 			blocks,
 		);
 
+		if (this._mode !== 'single') {
+			this._followCursor(blockIndex);
+			this._highlightSourceLine(blocks, blockIndex, lineNumber);
+			return;
+		}
+
 		if (typeof blockIndex !== 'number') {
 			return;
 		}
@@ -509,6 +578,7 @@ export class MermaidPreviewPanel {
 
 			this._singleLine = lineNumber;
 			this._updatePanelState();
+			this._highlightSourceLine(blocks, blockIndex, lineNumber);
 			return;
 		}
 
@@ -516,6 +586,168 @@ export class MermaidPreviewPanel {
 		this._singleBlockIndex = blockIndex;
 		this._updatePanelState();
 		this._renderSingle(lineNumber, blocks);
+		this._highlightSourceLine(blocks, blockIndex, lineNumber);
+	}
+
+	private _isFollowCursorEnabled(): boolean {
+		const config = vscode.workspace.getConfiguration('mermaidLivePreview');
+		return config.get<boolean>('followCursor', true);
+	}
+
+	/**
+	 * Scrolls the all-diagrams preview to the diagram whose fence holds the cursor.
+	 * Only fires when the cursor moves into a different diagram so manual panning
+	 * within a diagram is left alone.
+	 */
+	private _followCursor(blockIndex: number | undefined) {
+		if (blockIndex === this._followedBlockIndex) {
+			return;
+		}
+		this._followedBlockIndex = blockIndex;
+
+		if (typeof blockIndex !== 'number' || !this._isFollowCursorEnabled()) {
+			return;
+		}
+
+		this._panel.webview.postMessage({
+			command: 'focusDiagram',
+			index: blockIndex,
+		});
+	}
+
+	/**
+	 * Highlights the nodes whose definition sits on the cursor line.
+	 */
+	private _highlightSourceLine(
+		blocks: MermaidBlock[],
+		blockIndex: number | undefined,
+		lineNumber: number,
+	) {
+		const block =
+			typeof blockIndex === 'number' ? blocks[blockIndex] : undefined;
+		const identifiers = new Set<string>();
+		if (block) {
+			for (const token of getIdentifierTokens(block)) {
+				if (
+					token.line === lineNumber &&
+					token.kind === 'node' &&
+					findDefinition(block, token.name) === token
+				) {
+					identifiers.add(token.name);
+				}
+			}
+		}
+
+		const webviewIndex = this._mode === 'single' ? 0 : (blockIndex ?? -1);
+		const key = `${webviewIndex}:${[...identifiers].join(',')}`;
+		if (key === this._highlightKey) {
+			return;
+		}
+		this._highlightKey = key;
+		this._panel.webview.postMessage({
+			command: 'highlightNodes',
+			index: webviewIndex,
+			identifiers: [...identifiers],
+		});
+	}
+
+	private async _revealSource(
+		index: number,
+		identifier: string | undefined,
+		text: string | undefined,
+	) {
+		const document = this._currentDocument;
+		if (!document || typeof index !== 'number') {
+			return;
+		}
+
+		const blocks = getMermaidBlocks(document);
+		const block =
+			this._mode === 'single'
+				? typeof this._singleBlockIndex === 'number'
+					? blocks[this._singleBlockIndex]
+					: undefined
+				: blocks[index];
+		if (!block) {
+			return;
+		}
+
+		// Clicks that resolve to no element reveal the diagram's fence when following the cursor
+		const fenceLocation = this._isFollowCursorEnabled()
+			? { line: block.startLine, character: 0, length: 0 }
+			: undefined;
+		const location =
+			(identifier ? findDefinition(block, identifier) : undefined) ??
+			(text ? findTextLocation(block, text) : undefined) ??
+			fenceLocation;
+		if (!location) {
+			this._logger.logDebug('SourceSync', 'No source found for element', {
+				index,
+				identifier: identifier ?? null,
+				text: text ?? null,
+			});
+			return;
+		}
+
+		try {
+			const range = new vscode.Range(
+				location.line,
+				location.character,
+				location.line,
+				location.character + location.length,
+			);
+			const existing = vscode.window.visibleTextEditors.find(
+				(editor) => editor.document.uri.toString() === this._documentUri,
+			);
+			const editor = await vscode.window.showTextDocument(document, {
+				viewColumn: existing?.viewColumn ?? vscode.ViewColumn.One,
+				selection: range,
+			});
+			editor.revealRange(
+				range,
+				vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+			);
+		} catch (error) {
+			this._logger.logError(
+				'Failed to reveal diagram source',
+				error instanceof Error ? error : new Error(String(error)),
+			);
+		}
+	}
+
+	private async _openLink(href: string | undefined) {
+		const document = this._currentDocument;
+		const target =
+			document && typeof href === 'string'
+				? resolveLinkTarget(document.uri, href)
+				: undefined;
+		if (!target) {
+			this._logger.logDebug('PreviewLink', 'Ignoring diagram link', {
+				href: href ?? null,
+			});
+			return;
+		}
+
+		try {
+			if (isExternalLink(target)) {
+				await vscode.env.openExternal(target);
+				return;
+			}
+			// Relative links open beside the preview, like revealing the source
+			const existing = vscode.window.visibleTextEditors.find(
+				(editor) => editor.document.uri.toString() === this._documentUri,
+			);
+			await vscode.commands.executeCommand(
+				'vscode.open',
+				target.with({ fragment: '' }),
+				{ viewColumn: existing?.viewColumn ?? vscode.ViewColumn.One },
+			);
+		} catch (error) {
+			this._logger.logError(
+				'Failed to open diagram link',
+				error instanceof Error ? error : new Error(String(error)),
+			);
+		}
 	}
 
 	private async _handleThemeChange(theme: string) {
@@ -528,6 +760,9 @@ export class MermaidPreviewPanel {
 				vscode.ConfigurationTarget.Global,
 			);
 			await config.update('theme', theme, vscode.ConfigurationTarget.Global);
+			this._pickedTheme = getConfigFileTheme(this._currentDocument?.uri)
+				? theme
+				: undefined;
 			this._render(theme);
 		} catch (error) {
 			this._logger.logError(
@@ -650,29 +885,15 @@ export class MermaidPreviewPanel {
 	}
 
 	private _renderAll(overrideTheme?: string) {
-		const webview = this._panel.webview;
-
 		if (!this._currentDocument) {
-			webview.html = this._getErrorHtml('No document to preview');
-			return;
-		}
-
-		const mermaidCode = this._extractMermaidCode(this._currentDocument);
-
-		if (!mermaidCode) {
-			webview.html = this._getErrorHtml(
-				'No Mermaid diagram found. Wrap your diagram in ```mermaid code blocks.',
-			);
+			this._showErrorHtml('No document to preview');
 			return;
 		}
 
-		const { theme, appearance } = this._resolveTheme(overrideTheme);
-		webview.html = this._getHtmlForWebview(
-			webview,
-			mermaidCode,
-			theme,
-			appearance,
-			this._currentDocument?.uri.toString(),
+		const blocks = getMermaidBlocks(this._currentDocument);
+		this._postDiagrams(
+			blocks.map((block) => block.code),
+			overrideTheme,
 		);
 		this._updatePanelTitle();
 	}
@@ -682,15 +903,12 @@ export class MermaidPreviewPanel {
 		precomputedBlocks?: MermaidBlock[],
 		overrideTheme?: string,
 	) {
-		const webview = this._panel.webview;
-
 		if (!this._currentDocument) {
-			webview.html = this._getErrorHtml('No document to preview');
+			this._showErrorHtml('No document to preview');
 			return;
 		}
 
-		const blocks =
-			precomputedBlocks ?? this._getMermaidBlocks(this._currentDocument);
+		const blocks = precomputedBlocks ?? getMermaidBlocks(this._currentDocument);
 		let targetIndex = this._singleBlockIndex;
 
 		if (typeof targetIndex !== 'number' && typeof lineNumber === 'number') {
@@ -709,9 +927,7 @@ export class MermaidPreviewPanel {
 			this._singleBlockStartLine = undefined;
 			this._singleBlockEndLine = undefined;
 			this._updatePanelTitle();
-			webview.html = this._getErrorHtml(
-				'No Mermaid diagram found at this position.',
-			);
+			this._showErrorHtml('No Mermaid diagram found at this position.');
 			return;
 		}
 
@@ -724,42 +940,92 @@ export class MermaidPreviewPanel {
 		this._singleBlockStartLine = targetBlock.startLine;
 		this._singleBlockEndLine = targetBlock.endLine;
 
-		const mermaidCode = JSON.stringify([targetBlock.code]);
-		const { theme, appearance } = this._resolveTheme(overrideTheme);
-		webview.html = this._getHtmlForWebview(
-			webview,
-			mermaidCode,
-			theme,
-			appearance,
-			this._currentDocument?.uri.toString(),
-		);
+		this._postDiagrams([targetBlock.code], overrideTheme);
 		this._updatePanelTitle();
 	}
 
-	private _extractMermaidCode(document: vscode.TextDocument): string | null {
-		try {
-			const text = document.getText();
-			const blocks = this._getMermaidBlocks(document, text);
+	/**
+	 * Loads the webview document on first use, then sends only the diagrams whose
+	 * content hash changed since the last update so untouched diagrams keep their
+	 * rendered SVG, zoom and pan.
+	 */
+	private _postDiagrams(codes: string[], overrideTheme?: string) {
+		const webview = this._panel.webview;
+		const { theme, appearance } = resolveTheme(
+			overrideTheme ?? this._pickedTheme,
+			this._currentDocument?.uri,
+		);
 
-			if (blocks.length === 0) {
-				return null;
-			}
+		if (!this._htmlInitialized) {
+			this._htmlInitialized = true;
+			this._webviewReady = false;
+			this._renderRequests.rejectAll('Preview was reloaded');
+			this._renderedHashes = [];
+			this._highlightKey = undefined;
+			webview.html = this._getHtmlForWebview(
+				webview,
+				theme,
+				appearance,
+				this._currentDocument?.uri.toString(),
+			);
+			return;
+		}
 
-			const diagrams = blocks.map((block) => block.code);
+		if (!this._webviewReady) {
+			// The webviewLoaded handshake triggers a full sync once the page is up
+			return;
+		}
 
-			if (!diagrams.length) {
-				return null;
+		const mermaidConfig = getMermaidConfig(this._currentDocument?.uri);
+		const customThemes = getCustomThemes();
+		const configKey = JSON.stringify([mermaidConfig, customThemes]);
+		const hashes = codes.map(hashDiagram);
+		const changes: DiagramChange[] = [];
+		hashes.forEach((hash, index) => {
+			if (this._renderedHashes[index] !== hash) {
+				changes.push({ index, hash, code: codes[index] });
 			}
+		});
 
-			return JSON.stringify(diagrams);
-		} catch (error) {
-			// Only log unexpected errors (JSON.stringify should never fail with our data)
-			this._logger.logError(
-				'Unexpected error extracting Mermaid code',
-				error instanceof Error ? error : new Error(String(error)),
-			);
-			return null;
+		const unchanged =
+			changes.length === 0 &&
+			hashes.length === this._renderedHashes.length &&
+			theme === this._renderedTheme &&
+			appearance === this._renderedAppearance &&
+			configKey === this._renderedConfig;
+		if (unchanged) {
+			return;
 		}
+
+		const config = vscode.workspace.getConfiguration('mermaidLivePreview');
+		webview.postMessage({
+			command: 'updateDiagrams',
+			count: codes.length,
+			changes,
+			theme,
+			appearance,
+			mermaidConfig,
+			customThemes,
+			renderTimeout: config.get<number>('renderTimeout', 0),
+		});
+		this._renderedHashes = hashes;
+		this._renderedTheme = theme;
+		this._renderedAppearance = appearance;
+		this._renderedConfig = configKey;
+		this._logger.logDebug('PreviewUpdate', 'Posted diagram update', {
+			count: codes.length,
+			changed: changes.length,
+		});
+	}
+
+	private _showErrorHtml(message: string) {
+		// Replacing the document means the next update has to reload the preview
+		this._htmlInitialized = false;
+		this._webviewReady = false;
+		this._renderRequests.rejectAll('Preview was reloaded');
+		this._renderedHashes = [];
+		this._highlightKey = undefined;
+		this._panel.webview.html = this._getErrorHtml(message);
 	}
 
 	private _findBlockIndexForLine(
@@ -767,30 +1033,13 @@ export class MermaidPreviewPanel {
 		lineNumber: number,
 		precomputedBlocks?: MermaidBlock[],
 	): number | undefined {
-		const blocks = precomputedBlocks ?? this._getMermaidBlocks(document);
+		const blocks = precomputedBlocks ?? getMermaidBlocks(document);
 		const idx = blocks.findIndex(
 			(block) => lineNumber >= block.startLine && lineNumber <= block.endLine,
 		);
 		return idx >= 0 ? idx : undefined;
 	}
 
-	private _getMermaidBlocks(
-		document: vscode.TextDocument,
-		cachedText?: string,
-	): MermaidBlock[] {
-		const cacheKey = document.uri.toString();
-		const cached = this._blockCache.get(cacheKey);
-
-		if (cached && cached.version === document.version) {
-			return cached.blocks;
-		}
-
-		const text = cachedText ?? document.getText();
-		const blocks = this._collectMermaidBlocks(document, text);
-		this._blockCache.set(cacheKey, { version: document.version, blocks });
-		return blocks;
-	}
-
 	private _updatePanelTitle() {
 		if (!this._currentDocument) {
 			return;
@@ -828,95 +1077,6 @@ export class MermaidPreviewPanel {
 		};
 	}
 
-	private _collectMermaidBlocks(
-		document: vscode.TextDocument,
-		text: string,
-	): MermaidBlock[] {
-		try {
-			const blocks: MermaidBlock[] = [];
-
-			// For standalone .mmd or .mermaid files, treat entire content as one diagram
-			if (document.languageId === 'mermaid') {
-				const trimmedCode = text.trim();
-				if (trimmedCode) {
-					blocks.push({
-						code: trimmedCode,
-						startLine: 0,
-						endLine: document.lineCount - 1,
-					});
-				}
-				return blocks;
-			}
-
-			// For markdown files, extract mermaid code blocks
-			const mermaidRegex =
-				/```mermaid[^\S\r\n]*(?:\r?\n)([\s\S]*?)(?:\r?\n)?```/g;
-			let match: RegExpExecArray | null = mermaidRegex.exec(text);
-
-			while (match !== null) {
-				const diagramCode = match[1]?.trim();
-				if (diagramCode) {
-					const startPos = document.positionAt(match.index);
-					const endPos = document.positionAt(match.index + match[0].length);
-					blocks.push({
-						code: diagramCode,
-						startLine: startPos.line,
-						endLine: endPos.line,
-					});
-				}
-				match = mermaidRegex.exec(text);
-			}
-
-			return blocks;
-		} catch (error) {
-			// Log because regex parsing failure is unexpected
-			this._logger.logError(
-				'Unexpected error collecting Mermaid blocks',
-				error instanceof Error ? error : new Error(String(error)),
-			);
-			return [];
-		}
-	}
-
-	private _resolveTheme(overrideTheme?: string): {
-		theme: string;
-		appearance: PreviewAppearance;
-	} {
-		const config = vscode.workspace.getConfiguration('mermaidLivePreview');
-		const useVSCodeTheme = config.get<boolean>('useVSCodeTheme', false);
-		const configuredTheme = config.get<string>('theme', 'default');
-		const appearance = config.get<PreviewAppearance>(
-			'previewAppearance',
-			'matchVSCode',
-		);
-
-		let theme = overrideTheme || configuredTheme;
-
-		if (useVSCodeTheme && !overrideTheme) {
-			if (appearance === 'light') {
-				theme = 'default';
-			} else if (appearance === 'dark') {
-				theme = 'dark';
-			} else {
-				const colorTheme = vscode.window.activeColorTheme;
-				theme =
-					colorTheme.kind === vscode.ColorThemeKind.Dark ? 'dark' : 'default';
-			}
-		}
-
-		return { theme, appearance };
-	}
-
-	private _generateNonce(): string {
-		const chars =
-			'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-		let result = '';
-		for (let i = 0; i < 32; i++) {
-			result += chars.charAt(Math.floor(Math.random() * chars.length));
-		}
-		return result;
-	}
-
 	private _getAppearanceClass(appearance: PreviewAppearance): string {
 		switch (appearance) {
 			case 'light':
@@ -930,16 +1090,11 @@ export class MermaidPreviewPanel {
 
 	private _getHtmlForWebview(
 		webview: vscode.Webview,
-		mermaidCode: string,
 		theme: string,
 		appearance: PreviewAppearance,
 		documentId?: string,
 	): string {
 		try {
-			const diagrams = JSON.parse(mermaidCode);
-			const escapedDiagrams = diagrams.map((code: string) =>
-				code.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$/g, '\\$'),
-			);
 			const appearanceClass = this._getAppearanceClass(appearance);
 			const mermaidScriptUri = webview.asWebviewUri(
 				vscode.Uri.joinPath(
@@ -952,7 +1107,7 @@ export class MermaidPreviewPanel {
 			);
 
 			const docId = documentId ?? 'unknown';
-			const nonce = this._generateNonce();
+			const nonce = generateNonce();
 			const config = vscode.workspace.getConfiguration('mermaidLivePreview');
 			const renderTimeout = config.get<number>('renderTimeout', 0);
 
@@ -967,20 +1122,25 @@ export class MermaidPreviewPanel {
         import mermaid from '${mermaidScriptUri}';
 
         const vscode = acquireVsCodeApi();
-        const documentId = ${JSON.stringify(docId)};
+        const documentId = ${toScriptLiteral(docId)};
         const persistedState = vscode.getState?.() ?? {};
         let docStates = persistedState.docStates ?? {};
         const savedState = docStates[documentId] ?? {};
 
         // Initialize panel state for restoration after reload
         let panelState = persistedState.panelState ?? {
-            documentUri: ${JSON.stringify(this._documentUri)},
-            mode: ${JSON.stringify(this._mode)},
+            documentUri: ${toScriptLiteral(this._documentUri)},
+            mode: ${toScriptLiteral(this._mode)},
             singleLine: ${this._singleLine ?? 'undefined'}
         };
 
-        const diagrams = ${JSON.stringify(escapedDiagrams)};
-        const renderTimeout = ${renderTimeout};
+        // Populated by updateDiagrams messages from the extension
+        let diagrams = [];
+        let diagramHashes = [];
+        let renderTimeout = ${renderTimeout};
+        let mermaidConfig = ${toScriptLiteral(getMermaidConfig(this._currentDocument?.uri))};
+        let customThemes = ${toScriptLiteral(getCustomThemes())};
+        let renderQueue = Promise.resolve();
         let currentZoom = typeof savedState.currentZoom === 'number' ? savedState.currentZoom : 1.0;
         let panX = typeof savedState.panX === 'number' ? savedState.panX : 0;
         let panY = typeof savedState.panY === 'number' ? savedState.panY : 0;
@@ -989,8 +1149,8 @@ export class MermaidPreviewPanel {
         let lastPanY = 0;
         let panInitialized = false;
         let activeDiagramIndex = 0;
-        let currentTheme = '${theme}';
-        let currentAppearance = '${appearance}';
+        let currentTheme = ${toScriptLiteral(theme)};
+        let currentAppearance = ${toScriptLiteral(appearance)};
         let stageEl = null;
         let viewportEl = null;
         let panCaptureTarget = null;
@@ -998,12 +1158,18 @@ export class MermaidPreviewPanel {
         let pendingTransform = null;
         let pendingZoomUpdate = null;
         let lastParseError = null;
+        let pointerDownTarget = null;
+        let panDistance = 0;
+        let sourceHighlight = { index: -1, identifiers: [] };
+        const CLICK_DISTANCE = 4;
+        const NODE_ID_PATTERN = /^(?:flowchart|classId|state|entity)-(.+)-\\d+$/;
         const THEME_LABELS = {
             default: 'Default',
             dark: 'Dark',
             forest: 'Forest',
             neutral: 'Neutral',
-            base: 'Base'
+            base: 'Base',
+            vscode: 'VS Code Colors'
         };
         const APPEARANCE_LABELS = {
             matchVSCode: 'Match VS Code',
@@ -1042,6 +1208,7 @@ export class MermaidPreviewPanel {
             vscode.postMessage({
                 command: 'renderError',
                 index,
+                hash: diagramHashes[index] ?? null,
                 line: info.lineNumber ?? null,
                 message: info.message
             });
@@ -1087,13 +1254,51 @@ export class MermaidPreviewPanel {
             }
         }
 
-        mermaid.initialize({
-            startOnLoad: false,
-            theme: currentTheme,
-            securityLevel: 'loose',
-            flowchart: { useMaxWidth: true, htmlLabels: true }
+${VSCODE_COLORS_SCRIPT}
+        // Mirrors applyTheme in theme.ts: custom themes are a built-in base theme
+        // plus their own variables and CSS
+        function themeConfig(theme) {
+            const custom = customThemes[theme];
+            if (!custom) {
+                return withVSCodeColors({ ...mermaidConfig, theme });
+            }
+            const themeCSS = [mermaidConfig.themeCSS, custom.css].filter(css => typeof css === 'string' && css).join('\\n');
+            return {
+                ...mermaidConfig,
+                theme: custom.baseTheme,
+                themeVariables: { ...(mermaidConfig.themeVariables || {}), ...custom.themeVariables },
+                ...(themeCSS ? { themeCSS } : {})
+            };
+        }
+
+        let appliedVSCodeColors = null;
+
+        function initializeMermaid() {
+            const config = themeConfig(currentTheme);
+            appliedVSCodeColors = currentTheme === 'vscode' ? JSON.stringify(config.themeVariables) : null;
+            mermaid.initialize(config);
+        }
+
+        // The --vscode-* variables change with the colour theme, so the VS Code
+        // Colors theme is re-derived whenever they do
+        function refreshVSCodeColors() {
+            if (currentTheme !== 'vscode') {
+                return;
+            }
+            const previous = appliedVSCodeColors;
+            initializeMermaid();
+            if (appliedVSCodeColors !== previous) {
+                enqueueRender(renderAllDiagrams);
+            }
+        }
+
+        new MutationObserver(() => refreshVSCodeColors()).observe(document.documentElement, {
+            attributes: true,
+            attributeFilter: ['style', 'class']
         });
 
+        initializeMermaid();
+
         mermaid.parseError = (err) => {
             if (err instanceof Error) {
                 lastParseError = err;
@@ -1128,6 +1333,152 @@ export class MermaidPreviewPanel {
             viewport.addEventListener('pointerleave', endPan);
             viewport.addEventListener('pointercancel', endPan);
             viewport.addEventListener('wheel', handleWheel, { passive: false });
+            // Diagram links are followed on pointerup by handleDiagramClick, never by the webview
+            viewport.addEventListener('click', (event) => {
+                if (event.target.closest('.diagram-shell a')) {
+                    event.preventDefault();
+                }
+            });
+        }
+
+        function showEmptyState(container) {
+            container.innerHTML = '<div class="diagram-error">' +
+                '<div class="diagram-error__title">No Mermaid diagrams found</div>' +
+                '<div class="diagram-error__message">No Mermaid diagrams were found in this document. ' +
+                'Make sure your diagrams are wrapped in <code>\`\`\`mermaid</code> code blocks.</div>' +
+                '</div>';
+            vscode.postMessage({
+                command: 'renderError',
+                index: 0,
+                message: 'No diagrams found in document'
+            });
+        }
+
+        function ensureDiagramShell(container, index) {
+            let shell = container.querySelector('.diagram-shell[data-index="' + index + '"]');
+            if (!shell) {
+                shell = document.createElement('div');
+                shell.className = 'diagram-shell';
+                shell.dataset.index = index.toString();
+                shell.innerHTML = '<div class="diagram-content" id="diagram-' + index + '"></div>';
+                container.appendChild(shell);
+                shell.addEventListener('click', () => focusDiagram(index));
+            }
+
+            const diagramEl = document.getElementById('diagram-' + index);
+            diagramEl.classList.add('loading');
+            diagramEl.innerHTML = '<div class="loading-spinner"></div>' +
+                '<div class="loading-text">Rendering diagram...</div>';
+            return shell;
+        }
+
+        async function renderDiagram(index) {
+            lastParseError = null;
+
+            // Set a timeout to catch stuck renders (only if configured)
+            let renderTimeoutId;
+            if (renderTimeout > 0) {
+                renderTimeoutId = setTimeout(() => {
+                    const diagramEl = document.getElementById('diagram-' + index);
+                    if (diagramEl && diagramEl.classList.contains('loading')) {
+                        showRenderError(index, new Error('Diagram rendering timed out after ' + renderTimeout + 'ms. The diagram may be too complex or contain syntax errors.'));
+                    }
+                }, renderTimeout);
+            }
+
+            if (!(await validateDiagram(diagrams[index], index))) {
+                if (renderTimeoutId) clearTimeout(renderTimeoutId);
+                return;
+            }
+
+            try {
+                let svg;
+                if (renderTimeout > 0) {
+                    const result = await withTimeout(
+                        mermaid.render('mermaid-' + index + '-' + Date.now(), diagrams[index]),
+                        renderTimeout,
+                        'Diagram rendering timed out after ' + renderTimeout + 'ms. The diagram may be too complex.'
+                    );
+                    svg = result.svg;
+                } else {
+                    const result = await mermaid.render('mermaid-' + index + '-' + Date.now(), diagrams[index]);
+                    svg = result.svg;
+                }
+                if (renderTimeoutId) clearTimeout(renderTimeoutId);
+
+                if (lastParseError) {
+                    showRenderError(index, lastParseError);
+                    lastParseError = null;
+                    return;
+                }
+                const diagramEl = document.getElementById('diagram-' + index);
+                if (diagramEl) {
+                    diagramEl.classList.remove('loading');
+                    diagramEl.innerHTML = svg;
+                    applySourceHighlight(index);
+                }
+            } catch (error) {
+                if (renderTimeoutId) clearTimeout(renderTimeoutId);
+                console.error('Failed to render diagram ' + index, error);
+                showRenderError(index, error);
+                lastParseError = null;
+            }
+        }
+
+        function finishRenderPass() {
+            scheduleTransform();
+            scheduleZoomUpdate();
+            setActiveDiagram(activeDiagramIndex);
+            updateDiagramIndicator();
+            initializePanAndZoom();
+        }
+
+        // Mermaid keeps global render state, so renders must never interleave
+        function enqueueRender(task) {
+            renderQueue = renderQueue.then(task).catch((error) => {
+                vscode.postMessage({
+                    command: 'webviewError',
+                    message: 'Render pass failed: ' + (error instanceof Error ? error.message : String(error)),
+                    stack: error instanceof Error ? error.stack : null
+                });
+            });
+            return renderQueue;
+        }
+
+        // Renders a diagram for the extension, such as a hover thumbnail, with the
+        // request's config off screen, then restores the preview's own config
+        async function renderImage(request) {
+            const root = document.createElement('div');
+            root.style.cssText = 'position: absolute; left: -100000px; top: 0;';
+            document.body.appendChild(root);
+            lastParseError = null;
+            try {
+                mermaid.initialize(withVSCodeColors({ ...request.mermaidConfig }));
+                const { svg } = await mermaid.render('image-' + request.id + '-' + Date.now(), request.code);
+                if (lastParseError) {
+                    throw lastParseError;
+                }
+
+                let data;
+                if (request.format === 'svg') {
+                    data = btoa(unescape(encodeURIComponent(svg)));
+                } else {
+                    root.innerHTML = svg;
+                    const svgEl = root.querySelector('svg');
+                    if (!svgEl) {
+                        throw new Error('Mermaid did not produce an SVG');
+                    }
+                    data = await rasterizeSvgWithScale(svgEl, 'png', request.scale || 1);
+                }
+                vscode.postMessage({ command: 'renderResult', id: request.id, data });
+            } catch (error) {
+                const text = error instanceof Error ? error.message : String(error);
+                vscode.postMessage({ command: 'renderResult', id: request.id, error: text });
+            } finally {
+                lastParseError = null;
+                root.remove();
+                initializeMermaid();
+            }
         }
 
         async function renderAllDiagrams() {
@@ -1136,84 +1487,75 @@ export class MermaidPreviewPanel {
 
             // Check if we have diagrams to render
             if (!diagrams || diagrams.length === 0) {
-                container.innerHTML = '<div class="diagram-error">' +
-                    '<div class="diagram-error__title">No Mermaid diagrams found</div>' +
-                    '<div class="diagram-error__message">No Mermaid diagrams were found in this document. ' +
-                    'Make sure your diagrams are wrapped in <code>\`\`\`mermaid</code> code blocks.</div>' +
-                    '</div>';
-                vscode.postMessage({
-                    command: 'renderError',
-                    index: 0,
-                    message: 'No diagrams found in document'
-                });
+                showEmptyState(container);
                 return;
             }
 
             for (let i = 0; i < diagrams.length; i++) {
-                lastParseError = null;
-                const shell = document.createElement('div');
-                shell.className = 'diagram-shell';
-                shell.dataset.index = i.toString();
-                shell.innerHTML = '<div class="diagram-content loading" id="diagram-' + i + '">' +
-                    '<div class="loading-spinner"></div>' +
-                    '<div class="loading-text">Rendering diagram...</div>' +
-                    '</div>';
-                container.appendChild(shell);
-                shell.addEventListener('click', () => focusDiagram(i));
+                ensureDiagramShell(container, i);
+                await renderDiagram(i);
+            }
 
-                // Set a timeout to catch stuck renders (only if configured)
-                let renderTimeoutId;
-                if (renderTimeout > 0) {
-                    renderTimeoutId = setTimeout(() => {
-                        const diagramEl = document.getElementById('diagram-' + i);
-                        if (diagramEl && diagramEl.classList.contains('loading')) {
-                            showRenderError(i, new Error('Diagram rendering timed out after ' + renderTimeout + 'ms. The diagram may be too complex or contain syntax errors.'));
-                        }
-                    }, renderTimeout);
-                }
+            finishRenderPass();
+        }
 
-                if (!(await validateDiagram(diagrams[i], i))) {
-                    if (renderTimeoutId) clearTimeout(renderTimeoutId);
-                    continue;
+        async function applyDiagramUpdates(message) {
+            const container = document.getElementById('diagrams-container');
+            let needsFullRender = !container.querySelector('.diagram-shell');
+
+            if (typeof message.renderTimeout === 'number') {
+                renderTimeout = message.renderTimeout;
+            }
+            if (message.appearance && message.appearance !== currentAppearance) {
+                setBodyAppearance(message.appearance);
+            }
+            if (message.theme && message.theme !== currentTheme) {
+                currentTheme = message.theme;
+                updateDropdownSelection('dropdown-theme', currentTheme);
+                updateThemeButtonLabel(currentTheme);
+                initializeMermaid();
+                needsFullRender = true;
+            }
+            if (message.mermaidConfig && JSON.stringify(message.mermaidConfig) !== JSON.stringify(mermaidConfig)) {
+                mermaidConfig = message.mermaidConfig;
+                initializeMermaid();
+                needsFullRender = true;
+            }
+            if (message.customThemes && JSON.stringify(message.customThemes) !== JSON.stringify(customThemes)) {
+                const usesCustomTheme = currentTheme in customThemes || currentTheme in message.customThemes;
+                customThemes = message.customThemes;
+                renderCustomThemeOptions();
+                updateThemeButtonLabel(currentTheme);
+                if (usesCustomTheme) {
+                    initializeMermaid();
+                    needsFullRender = true;
                 }
+            }
 
-                try {
-                    let svg;
-                    if (renderTimeout > 0) {
-                        const result = await withTimeout(
-                            mermaid.render('mermaid-' + i + '-' + Date.now(), diagrams[i]),
-                            renderTimeout,
-                            'Diagram rendering timed out after ' + renderTimeout + 'ms. The diagram may be too complex.'
-                        );
-                        svg = result.svg;
-                    } else {
-                        const result = await mermaid.render('mermaid-' + i + '-' + Date.now(), diagrams[i]);
-                        svg = result.svg;
-                    }
-                    if (renderTimeoutId) clearTimeout(renderTimeoutId);
+            diagrams = diagrams.slice(0, message.count);
+            diagramHashes = diagramHashes.slice(0, message.count);
+            for (const change of message.changes) {
+                diagrams[change.index] = change.code;
+                diagramHashes[change.index] = change.hash;
+            }
 
-                    if (lastParseError) {
-                        showRenderError(i, lastParseError);
-                        lastParseError = null;
-                        continue;
-                    }
-                    const diagramEl = document.getElementById('diagram-' + i);
-                    if (diagramEl) {
-                        diagramEl.classList.remove('loading');
-                        diagramEl.innerHTML = svg;
-                    }
-                } catch (error) {
-                    if (renderTimeoutId) clearTimeout(renderTimeoutId);
-                    console.error('Failed to render diagram ' + i, error);
-                    showRenderError(i, error);
-                    lastParseError = null;
+            if (needsFullRender || diagrams.length === 0) {
+                await renderAllDiagrams();
+                return;
+            }
+
+            container.querySelectorAll('.diagram-shell').forEach(shell => {
+                if (Number(shell.dataset.index) >= diagrams.length) {
+                    shell.remove();
                 }
+            });
+
+            for (const change of message.changes) {
+                ensureDiagramShell(container, change.index);
+                await renderDiagram(change.index);
             }
 
-            scheduleTransform();
-            setActiveDiagram(activeDiagramIndex);
-            updateDiagramIndicator();
-            initializePanAndZoom();
+            finishRenderPass();
         }
 
         function scheduleTransform() {
@@ -1279,6 +1621,8 @@ export class MermaidPreviewPanel {
             }
 
             isPanning = true;
+            pointerDownTarget = event.target;
+            panDistance = 0;
             lastPanX = event.clientX;
             lastPanY = event.clientY;
             activePointerId = event.pointerId;
@@ -1303,6 +1647,7 @@ export class MermaidPreviewPanel {
             const dy = event.clientY - lastPanY;
             lastPanX = event.clientX;
             lastPanY = event.clientY;
+            panDistance += Math.abs(dx) + Math.abs(dy);
             panX += dx;
             panY += dy;
             scheduleTransform();
@@ -1324,6 +1669,96 @@ export class MermaidPreviewPanel {
             activePointerId = null;
             document.body.classList.remove('is-panning');
             saveInteractionState();
+
+            // Pointer capture retargets click events, so treat a still pointerup as the click
+            if (event.type === 'pointerup' && panDistance <= CLICK_DISTANCE && pointerDownTarget) {
+                handleDiagramClick(pointerDownTarget);
+            }
+            pointerDownTarget = null;
+        }
+
+        function identifierForNode(node) {
+            const raw = node.dataset.id || node.id || '';
+            const match = NODE_ID_PATTERN.exec(raw);
+            return match ? match[1] : raw;
+        }
+
+        function describeDiagramTarget(target) {
+            const edgeLabel = target.closest('.edgeLabel');
+            if (edgeLabel) {
+                const text = edgeLabel.textContent.trim();
+                return text ? { text } : null;
+            }
+
+            const node = target.closest('.node');
+            if (node) {
+                const identifier = identifierForNode(node);
+                return identifier ? { identifier } : null;
+            }
+
+            // Sequence participants carry their name on the actor shapes
+            const named = target.closest('[name]') ?? target.closest('g')?.querySelector(':scope > [name]');
+            if (named) {
+                return { identifier: named.getAttribute('name') };
+            }
+
+            const text = target.closest('text')?.textContent.trim();
+            return text ? { text } : null;
+        }
+
+        function handleDiagramClick(target) {
+            const shell = target.closest?.('.diagram-shell');
+            if (!shell) {
+                return;
+            }
+
+            // Links from click directives open in VS Code or the browser instead of revealing the source
+            const anchor = target.closest('a');
+            const href = anchor?.getAttribute('href') ?? anchor?.getAttribute('xlink:href');
+            if (href) {
+                vscode.postMessage({ command: 'openLink', href });
+                return;
+            }
+
+            // Without a recognisable element the extension may reveal the diagram's fence
+            const description = describeDiagramTarget(target) ?? {};
+            vscode.postMessage({
+                command: 'revealSource',
+                index: Number(shell.dataset.index),
+                identifier: description.identifier,
+                text: description.text
+            });
+        }
+
+        function elementsForIdentifier(root, identifier) {
+            const nodes = Array.from(root.querySelectorAll('.node'))
+                .filter(node => identifierForNode(node) === identifier);
+            const actors = Array.from(root.querySelectorAll('rect[name]'))
+                .filter(rect => rect.getAttribute('name') === identifier);
+            return nodes.concat(actors);
+        }
+
+        function applySourceHighlight(index) {
+            const root = document.getElementById('diagram-' + index);
+            if (!root) {
+                return;
+            }
+            root.querySelectorAll('.source-highlight').forEach(el => el.classList.remove('source-highlight'));
+            if (sourceHighlight.index !== index) {
+                return;
+            }
+            for (const identifier of sourceHighlight.identifiers) {
+                elementsForIdentifier(root, identifier).forEach(el => el.classList.add('source-highlight'));
+            }
+        }
+
+        function highlightNodes(index, identifiers) {
+            const previousIndex = sourceHighlight.index;
+            sourceHighlight = { index, identifiers: identifiers ?? [] };
+            if (previousIndex !== index) {
+                applySourceHighlight(previousIndex);
+            }
+            applySourceHighlight(index);
         }
 
         function handleWheel(event) {
@@ -1406,7 +1841,7 @@ export class MermaidPreviewPanel {
         function updateThemeButtonLabel(theme) {
             const button = document.getElementById('theme-button');
             if (button) {
-                const label = THEME_LABELS[theme] || 'Custom';
+                const label = THEME_LABELS[theme] || customThemes[theme]?.label || 'Custom';
                 button.textContent = 'Theme: ' + label + ' ▾';
             }
         }
@@ -1479,13 +1914,8 @@ export class MermaidPreviewPanel {
             currentTheme = newTheme;
             updateDropdownSelection('dropdown-theme', newTheme);
             updateThemeButtonLabel(newTheme);
-            mermaid.initialize({
-                startOnLoad: false,
-                theme: newTheme,
-                securityLevel: 'loose',
-                flowchart: { useMaxWidth: true, htmlLabels: true }
-            });
-            renderAllDiagrams();
+            initializeMermaid();
+            enqueueRender(renderAllDiagrams);
             vscode.postMessage({
                 command: 'changeTheme',
                 theme: newTheme
@@ -1939,6 +2369,16 @@ export class MermaidPreviewPanel {
             if (message.command === 'updateState') {
                 panelState = message.state;
                 saveInteractionState();
+            } else if (message.command === 'updateDiagrams') {
+                enqueueRender(() => applyDiagramUpdates(message));
+            } else if (message.command === 'focusDiagram') {
+                focusDiagram(message.index);
+            } else if (message.command === 'highlightNodes') {
+                highlightNodes(message.index, message.identifiers);
+            } else if (message.command === 'refreshColorTheme') {
+                refreshVSCodeColors();
+            } else if (message.command === 'renderImage') {
+                enqueueRender(() => renderImage(message));
             }
         });
 
@@ -1971,10 +2411,10 @@ export class MermaidPreviewPanel {
             try {
                 stageEl = document.getElementById('diagram-stage');
                 setBodyAppearance(currentAppearance);
+                renderCustomThemeOptions();
                 updateDropdownSelection('dropdown-theme', currentTheme);
                 updateDropdownSelection('dropdown-appearance', currentAppearance);
                 updateThemeButtonLabel(currentTheme);
-                renderAllDiagrams();
                 scheduleZoomUpdate();
                 scheduleTransform();
                 bindToolbarControls();
@@ -2085,6 +2525,29 @@ export class MermaidPreviewPanel {
             });
         }
 
+        function renderCustomThemeOptions() {
+            const container = document.getElementById('custom-theme-options');
+            if (!container) {
+                return;
+            }
+            container.replaceChildren();
+            const names = Object.keys(customThemes);
+            if (names.length === 0) {
+                return;
+            }
+
+            const separator = document.createElement('div');
+            separator.className = 'dropdown-separator';
+            container.appendChild(separator);
+            for (const name of names) {
+                const btn = document.createElement('button');
+                btn.dataset.themeOption = name;
+                btn.textContent = customThemes[name].label;
+                btn.addEventListener('click', () => handleThemeChange(name));
+                container.appendChild(btn);
+            }
+        }
+
         function bindToolbarControls() {
             const actionMap = new Map([
                 ['zoom-in', zoomIn],
@@ -2318,6 +2781,10 @@ export class MermaidPreviewPanel {
             height: auto;
         }
 
+        .diagram-content .source-highlight {
+            filter: drop-shadow(0 0 3px var(--vscode-focusBorder, #007fd4)) drop-shadow(0 0 6px var(--vscode-focusBorder, #007fd4));
+        }
+
         #diagram-viewport *,
         #diagram-stage *,
         #diagrams-container *,
@@ -2509,6 +2976,8 @@ export class MermaidPreviewPanel {
                 <button data-theme-option="forest">Forest</button>
                 <button data-theme-option="neutral">Neutral</button>
                 <button data-theme-option="base">Base</button>
+                <button data-theme-option="vscode">VS Code Colors</button>
+                <div id="custom-theme-options"></div>
             </div>
         </div>
         <div class="toolbar-group dropdown">
@@ -2610,6 +3079,33 @@ export class MermaidPreviewPanel {
 </html>`;
 	}
 
+	/**
+	 * Renders a diagram that need not be part of this preview with its own
+	 * Mermaid config, without changing what the preview shows.
+	 */
+	public renderImage(code: string, options: RenderOptions): Promise<Buffer> {
+		if (this._isDisposed || !this._webviewReady) {
+			return Promise.reject(new Error('Preview is not ready'));
+		}
+
+		return this._renderRequests.add(options.timeout, (id) =>
+			this._panel.webview.postMessage({
+				command: 'renderImage',
+				id,
+				code,
+				mermaidConfig: options.mermaidConfig ?? {},
+				format: options.format,
+				scale: options.scale ?? 1,
+			}),
+		);
+	}
+
+	public handleColorThemeChange() {
+		// Lets the VS Code Colors theme re-read the new colours before re-rendering
+		this._panel.webview.postMessage({ command: 'refreshColorTheme' });
+		this.refreshAppearance();
+	}
+
 	public refreshAppearance() {
 		if (!this._currentDocument) {
 			return;
@@ -2625,7 +3121,7 @@ export class MermaidPreviewPanel {
 
 		this._isDisposed = true;
 		MermaidPreviewPanel._panels.delete(this);
-		this._blockCache.clear();
+		this._renderRequests.rejectAll('Preview was closed');
 
 		if (this._updateTimeout) {
 			clearTimeout(this._updateTimeout);
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import {
+	findIdentifierAt,
+	findReferences,
+	getIdentifierTokens,
+} from './diagramModel';
+import { findMermaidBlockAtLine } from './mermaidBlocks';
+import { findDiagramHeader, getReservedWords } from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+const VALID_IDENTIFIER = /^\w+(?:-\w+)*$/;
+
+/**
+ * Renames a node, participant, state, entity or style class everywhere it is
+ * used in the same diagram. Only identifier tokens from the diagram model are
+ * edited, so quoted labels, edge text and messages are never touched.
+ */
+export class MermaidRenameProvider implements vscode.RenameProvider {
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	prepareRename(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.ProviderResult<{ range: vscode.Range; placeholder: string }> {
+		const block = findMermaidBlockAtLine(document, position.line);
+		if (!block) {
+			// Leave the rest of a markdown file to other rename providers
+			return undefined;
+		}
+
+		const token = findIdentifierAt(block, position.line, position.character);
+		if (!token) {
+			throw new Error(
+				'Only node, participant, state, entity and class IDs can be renamed.',
+			);
+		}
+		return {
+			range: new vscode.Range(
+				token.line,
+				token.character,
+				token.line,
+				token.character + token.length,
+			),
+			placeholder: token.name,
+		};
+	}
+
+	provideRenameEdits(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+		newName: string,
+	): vscode.ProviderResult<vscode.WorkspaceEdit> {
+		const block = findMermaidBlockAtLine(document, position.line);
+		const token = block
+			? findIdentifierAt(block, position.line, position.character)
+			: undefined;
+		if (!block || !token) {
+			return undefined;
+		}
+
+		const name = newName.trim();
+		const header = findDiagramHeader(
+			block.contentLines.map((contentLine) => contentLine.text),
+		);
+		if (
+			!VALID_IDENTIFIER.test(name) ||
+			getReservedWords(header?.type ?? '').has(name)
+		) {
+			throw new Error(`'${name}' is not a valid Mermaid ID.`);
+		}
+		if (name === token.name) {
+			return new vscode.WorkspaceEdit();
+		}
+		// Renaming onto an existing ID would silently merge two nodes
+		if (
+			getIdentifierTokens(block).some(
+				(other) => other.name === name && other.kind === token.kind,
+			)
+		) {
+			throw new Error(`'${name}' is already used in this diagram.`);
+		}
+
+		const references = findReferences(block, token.name, token.kind);
+		const edit = new vscode.WorkspaceEdit();
+		for (const reference of references) {
+			edit.replace(
+				document.uri,
+				new vscode.Range(
+					reference.line,
+					reference.character,
+					reference.line,
+					reference.character + reference.length,
+				),
+				name,
+			);
+		}
+
+		this.logger.logDebug('RenameProvider', 'Renamed identifier', {
+			from: token.name,
+			to: name,
+			occurrences: references.length,
+		});
+		return edit;
+	}
+}
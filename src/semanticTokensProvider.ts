@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import {
+	getDiagramFamily,
+	getIdentifierTokens,
+	getLabelTokens,
+	type IdentifierToken,
+} from './diagramModel';
+import { getMermaidBlocks, type MermaidBlock } from './mermaidBlocks';
+import { findDiagramHeader } from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+// Custom token types fall back to their superType (see package.json) in themes
+// without specific rules
+const TOKEN_TYPES = [
+	'mermaidNode',
+	'mermaidParticipant',
+	'mermaidStyleClass',
+	'mermaidLabel',
+	'mermaidEdgeLabel',
+];
+const TOKEN_MODIFIERS = ['declaration', 'unresolved'];
+
+export const SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend(
+	TOKEN_TYPES,
+	TOKEN_MODIFIERS,
+);
+
+/**
+ * Classifies node IDs, participants, style classes and label text, which the
+ * TextMate grammar cannot tell apart. Style classes that are assigned but never
+ * defined with `classDef` are marked `unresolved`.
+ */
+export class MermaidSemanticTokensProvider
+	implements vscode.DocumentSemanticTokensProvider
+{
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideDocumentSemanticTokens(
+		document: vscode.TextDocument,
+		token: vscode.CancellationToken,
+	): vscode.ProviderResult<vscode.SemanticTokens> {
+		const builder = new vscode.SemanticTokensBuilder(SEMANTIC_TOKENS_LEGEND);
+		try {
+			for (const block of getMermaidBlocks(document)) {
+				if (token.isCancellationRequested) {
+					break;
+				}
+				this.addBlockTokens(builder, block);
+			}
+		} catch (error) {
+			this.logger.logDebug(
+				'SemanticTokensProvider',
+				'Failed to compute semantic tokens',
+				{ error: error instanceof Error ? error.message : String(error) },
+			);
+		}
+		return builder.build();
+	}
+
+	private addBlockTokens(
+		builder: vscode.SemanticTokensBuilder,
+		block: MermaidBlock,
+	) {
+		const header = findDiagramHeader(
+			block.contentLines.map((contentLine) => contentLine.text),
+		);
+		const nodeType =
+			header && getDiagramFamily(header.type) === 'sequence'
+				? 'mermaidParticipant'
+				: 'mermaidNode';
+		const identifiers = getIdentifierTokens(block);
+		const definedClasses = new Set(
+			identifiers
+				.filter(
+					(identifier) => identifier.kind === 'class' && identifier.declares,
+				)
+				.map((identifier) => identifier.name),
+		);
+
+		for (const identifier of identifiers) {
+			const modifiers: string[] = [];
+			if (identifier.declares) {
+				modifiers.push('declaration');
+			}
+			if (identifier.kind === 'class' && !definedClasses.has(identifier.name)) {
+				modifiers.push('unresolved');
+			}
+			builder.push(
+				tokenRange(identifier),
+				identifier.kind === 'class' ? 'mermaidStyleClass' : nodeType,
+				modifiers,
+			);
+		}
+
+		for (const label of getLabelTokens(block)) {
+			builder.push(
+				tokenRange(label),
+				label.kind === 'edgeLabel' ? 'mermaidEdgeLabel' : 'mermaidLabel',
+			);
+		}
+	}
+}
+
+function tokenRange(
+	token: Pick<IdentifierToken, 'line' | 'character' | 'length'>,
+): vscode.Range {
+	return new vscode.Range(
+		token.line,
+		token.character,
+		token.line,
+		token.character + token.length,
+	);
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import {
+	findMermaidBlockAtLine,
+	type MermaidBlock,
+	type MermaidBlockLine,
+} from './mermaidBlocks';
+import { type BlockPair, findBlockPairs } from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+/**
+ * Structural navigation built on the same block pairing as folding: highlights
+ * an opener together with its sections and closer, expands the selection from a
+ * word to its line, enclosing sections and blocks and the whole diagram, and
+ * finds the other end of a block for Go to Matching Block End.
+ */
+export class MermaidStructureProvider
+	implements vscode.DocumentHighlightProvider, vscode.SelectionRangeProvider
+{
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideDocumentHighlights(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.ProviderResult<vscode.DocumentHighlight[]> {
+		try {
+			const block = findMermaidBlockAtLine(document, position.line);
+			if (!block) {
+				return undefined;
+			}
+
+			for (const pair of getBlockPairs(block)) {
+				const markers = pairMarkers(block, pair);
+				if (markers.some((marker) => marker.contains(position))) {
+					return markers.map(
+						(marker) =>
+							new vscode.DocumentHighlight(
+								marker,
+								vscode.DocumentHighlightKind.Text,
+							),
+					);
+				}
+			}
+			// Leave other words to the editor's word highlighting
+			return undefined;
+		} catch (error) {
+			this.logger.logDebug('StructureProvider', 'Failed to find highlights', {
+				error: error instanceof Error ? error.message : String(error),
+			});
+			return undefined;
+		}
+	}
+
+	provideSelectionRanges(
+		document: vscode.TextDocument,
+		positions: vscode.Position[],
+	): vscode.ProviderResult<vscode.SelectionRange[]> {
+		try {
+			if (
+				!positions.some((position) =>
+					findMermaidBlockAtLine(document, position.line),
+				)
+			) {
+				return undefined;
+			}
+			return positions.map((position) =>
+				this.selectionRange(document, position),
+			);
+		} catch (error) {
+			this.logger.logDebug(
+				'StructureProvider',
+				'Failed to compute selection ranges',
+				{ error: error instanceof Error ? error.message : String(error) },
+			);
+			return undefined;
+		}
+	}
+
+	/**
+	 * Where Go to Matching Block End moves the cursor: from an opener or section
+	 * line to the closer, from a closer back to its opener, and from anywhere
+	 * else to the closer of the innermost enclosing block.
+	 */
+	public findMatchingPosition(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.Position | undefined {
+		const block = findMermaidBlockAtLine(document, position.line);
+		const index = block?.contentLines.findIndex(
+			(contentLine) => contentLine.line === position.line,
+		);
+		if (!block || index === undefined || index < 0) {
+			return undefined;
+		}
+
+		const pairs = getBlockPairs(block);
+		let target: number | undefined;
+		const atBoundary = pairs.find(
+			(pair) =>
+				pair.open === index ||
+				pair.close === index ||
+				pair.sections.includes(index),
+		);
+		if (atBoundary) {
+			target = atBoundary.close === index ? atBoundary.open : atBoundary.close;
+		} else {
+			target = innermostPairs(pairs, index)[0]?.close;
+		}
+		if (target === undefined) {
+			return undefined;
+		}
+
+		const contentLine = block.contentLines[target];
+		return new vscode.Position(
+			contentLine.line,
+			contentLine.character + indentOf(contentLine.text),
+		);
+	}
+
+	private selectionRange(
+		document: vscode.TextDocument,
+		position: vscode.Position,
+	): vscode.SelectionRange {
+		const ranges: vscode.Range[] = [];
+		const word = document.getWordRangeAtPosition(position, /[\w-]+/);
+		if (word) {
+			ranges.push(word);
+		}
+
+		const block = findMermaidBlockAtLine(document, position.line);
+		const index =
+			block?.contentLines.findIndex(
+				(contentLine) => contentLine.line === position.line,
+			) ?? -1;
+		if (block && index >= 0) {
+			const lines = block.contentLines;
+			ranges.push(statementRange(lines[index], lines[index]));
+
+			for (const pair of innermostPairs(getBlockPairs(block), index)) {
+				const sections = [...pair.sections, pair.close];
+				const section = pair.sections.findIndex(
+					(start, k) => index >= start && index < sections[k + 1],
+				);
+				if (section >= 0) {
+					ranges.push(
+						statementRange(
+							lines[pair.sections[section]],
+							lines[sections[section + 1] - 1],
+						),
+					);
+				}
+				ranges.push(statementRange(lines[pair.open], lines[pair.close]));
+			}
+
+			const code = lines.filter((contentLine) => contentLine.text.trim());
+			if (code.length) {
+				ranges.push(statementRange(code[0], code[code.length - 1]));
+			}
+			// The fence lines too, for diagrams in markdown
+			ranges.push(
+				new vscode.Range(
+					block.startLine,
+					0,
+					block.endLine,
+					document.lineAt(block.endLine).text.length,
+				),
+			);
+		} else {
+			ranges.push(document.lineAt(position.line).range);
+		}
+
+		// Build from the outermost range in, skipping repeats
+		let selection: vscode.SelectionRange | undefined;
+		for (const range of ranges.reverse()) {
+			if (
+				(selection && !selection.range.contains(range)) ||
+				selection?.range.isEqual(range)
+			) {
+				continue;
+			}
+			selection = new vscode.SelectionRange(range, selection);
+		}
+		return (
+			selection ??
+			new vscode.SelectionRange(new vscode.Range(position, position))
+		);
+	}
+}
+
+function getBlockPairs(block: MermaidBlock): BlockPair[] {
+	return findBlockPairs(
+		block.contentLines.map((contentLine) => contentLine.text),
+	);
+}
+
+// Pairs enclosing a line, innermost first
+function innermostPairs(pairs: BlockPair[], index: number): BlockPair[] {
+	return pairs
+		.filter((pair) => pair.open <= index && pair.close >= index)
+		.sort((a, b) => a.close - a.open - (b.close - b.open));
+}
+
+/**
+ * The keywords and braces that make up a block: `alt`, each `else` and `end`, or
+ * the opening `{` and closing `}`.
+ */
+function pairMarkers(block: MermaidBlock, pair: BlockPair): vscode.Range[] {
+	const lines = block.contentLines;
+	if (pair.closer === '}') {
+		const open = lines[pair.open];
+		return [
+			markerRange(open, open.text.lastIndexOf('{'), 1),
+			markerRange(lines[pair.close], indentOf(lines[pair.close].text), 1),
+		];
+	}
+
+	return [pair.open, ...pair.sections, pair.close].map((index) => {
+		const contentLine = lines[index];
+		const indent = indentOf(contentLine.text);
+		const keyword = /^(?:end\s+note\b|[\w-]+)/.exec(
+			contentLine.text.slice(indent),
+		);
+		return markerRange(contentLine, indent, keyword?.[0].length ?? 0);
+	});
+}
+
+function markerRange(
+	contentLine: MermaidBlockLine,
+	start: number,
+	length: number,
+): vscode.Range {
+	return new vscode.Range(
+		contentLine.line,
+		contentLine.character + start,
+		contentLine.line,
+		contentLine.character + start + length,
+	);
+}
+
+// From the first character of one line to the last of another, without indentation
+function statementRange(
+	from: MermaidBlockLine,
+	to: MermaidBlockLine,
+): vscode.Range {
+	return new vscode.Range(
+		from.line,
+		from.character + indentOf(from.text),
+		to.line,
+		to.character + to.text.trimEnd().length,
+	);
+}
+
+function indentOf(text: string): number {
+	return text.length - text.trimStart().length;
+}
@@ -0,0 +1,325 @@
+import * as vscode from 'vscode';
+import { isNamedColor } from './colorProvider';
+import {
+	type DiagramFamily,
+	getDiagramFamily,
+	getIdentifierTokens,
+	type IdentifierToken,
+} from './diagramModel';
+import {
+	getMermaidBlocks,
+	type MermaidBlock,
+	type MermaidBlockLine,
+} from './mermaidBlocks';
+import {
+	type DiagramHeader,
+	findDiagramHeader,
+	findDiagramTitle,
+	getDiagramKeywords,
+	matchBlockBoundary,
+	SECTIONED_DIAGRAM_TYPES,
+} from './mermaidSyntax';
+import { Logger } from './util/logger';
+
+type BlockFrame = {
+	// Symbol the block belongs to, if it is shown in the outline
+	symbol?: vscode.DocumentSymbol;
+};
+
+const IDENTIFIER_KINDS: Record<DiagramFamily, vscode.SymbolKind | undefined> = {
+	// Flowchart nodes are too numerous to be useful; only subgraphs are listed
+	flowchart: undefined,
+	sequence: vscode.SymbolKind.Object,
+	class: vscode.SymbolKind.Class,
+	state: vscode.SymbolKind.EnumMember,
+	er: vscode.SymbolKind.Struct,
+};
+
+export class MermaidDocumentSymbolProvider
+	implements vscode.DocumentSymbolProvider
+{
+	private readonly logger: Logger;
+
+	constructor() {
+		this.logger = Logger.instance;
+	}
+
+	provideDocumentSymbols(
+		document: vscode.TextDocument,
+		token: vscode.CancellationToken,
+	): vscode.ProviderResult<vscode.DocumentSymbol[]> {
+		try {
+			const symbols: vscode.DocumentSymbol[] = [];
+			for (const block of getMermaidBlocks(document)) {
+				if (token.isCancellationRequested) {
+					return [];
+				}
+				symbols.push(this.diagramSymbol(document, block));
+			}
+			return symbols;
+		} catch (error) {
+			this.logger.logDebug(
+				'SymbolProvider',
+				'Failed to compute document symbols',
+				{ error: error instanceof Error ? error.message : String(error) },
+			);
+			return [];
+		}
+	}
+
+	private diagramSymbol(
+		document: vscode.TextDocument,
+		block: MermaidBlock,
+	): vscode.DocumentSymbol {
+		const lines = block.contentLines.map((contentLine) => contentLine.text);
+		const header = findDiagramHeader(lines);
+		const title = findDiagramTitle(lines);
+		const headerLine = header ? block.contentLines[header.line] : undefined;
+
+		const type = header?.type ?? 'Mermaid diagram';
+		const diagram = new vscode.DocumentSymbol(
+			title ? `${type}: ${title}` : type,
+			'',
+			vscode.SymbolKind.Module,
+			new vscode.Range(
+				block.startLine,
+				0,
+				block.endLine,
+				document.lineAt(block.endLine).text.length,
+			),
+			headerLine
+				? lineRange(headerLine)
+				: document.lineAt(block.startLine).range,
+		);
+
+		if (header && SECTIONED_DIAGRAM_TYPES.has(header.type)) {
+			diagram.children = this.sectionSymbols(
+				block.contentLines.slice(header.line + 1),
+				getDiagramKeywords(header.type),
+			);
+		} else if (header) {
+			diagram.children = this.structureSymbols(block, header);
+		}
+		return diagram;
+	}
+
+	/**
+	 * Subgraphs, boxes and namespaces, plus the participants, classes, states or
+	 * entities declared in them, nested the same way the diagram nests blocks.
+	 */
+	private structureSymbols(
+		block: MermaidBlock,
+		header: DiagramHeader,
+	): vscode.DocumentSymbol[] {
+		const family = getDiagramFamily(header.type);
+		const root: vscode.DocumentSymbol[] = [];
+		const stack: BlockFrame[] = [];
+		const identifierKind = family ? IDENTIFIER_KINDS[family] : undefined;
+		const definitions =
+			identifierKind !== undefined ? findDefinitionsByLine(block) : new Map();
+
+		const container = () => {
+			for (let i = stack.length - 1; i >= 0; i--) {
+				const symbol = stack[i].symbol;
+				if (symbol) {
+					return symbol.children;
+				}
+			}
+			return root;
+		};
+
+		for (const contentLine of block.contentLines.slice(header.line + 1)) {
+			const trimmed = contentLine.text.trim();
+			const boundary = matchBlockBoundary(trimmed, header.type);
+
+			if (boundary?.kind === 'close') {
+				const frame = stack.pop();
+				if (frame?.symbol) {
+					frame.symbol.range = new vscode.Range(
+						frame.symbol.range.start,
+						lineRange(contentLine).end,
+					);
+				}
+				continue;
+			}
+
+			let declared: vscode.DocumentSymbol | undefined;
+			if (identifierKind !== undefined) {
+				for (const definition of definitions.get(contentLine.line) ?? []) {
+					const symbol = new vscode.DocumentSymbol(
+						definition.name,
+						aliasOf(trimmed, definition.name),
+						identifierKind,
+						lineRange(contentLine),
+						new vscode.Range(
+							contentLine.line,
+							definition.character,
+							contentLine.line,
+							definition.character + definition.length,
+						),
+					);
+					container().push(symbol);
+					declared ??= symbol;
+				}
+			}
+
+			if (boundary?.kind !== 'open') {
+				continue;
+			}
+
+			if (
+				boundary.keyword === 'subgraph' ||
+				boundary.keyword === 'box' ||
+				boundary.keyword === 'namespace'
+			) {
+				const name = groupName(trimmed, boundary.keyword);
+				const symbol = new vscode.DocumentSymbol(
+					name || boundary.keyword,
+					name ? boundary.keyword : '',
+					vscode.SymbolKind.Namespace,
+					lineRange(contentLine),
+					lineRange(contentLine),
+				);
+				container().push(symbol);
+				stack.push({ symbol });
+			} else {
+				// `class X {`, `state X {` and entity bodies belong to what they declare
+				stack.push({
+					symbol: declared && trimmed.endsWith('{') ? declared : undefined,
+				});
+			}
+		}
+
+		return root;
+	}
+
+	/**
+	 * Gantt, journey and timeline sections with their tasks or events.
+	 */
+	private sectionSymbols(
+		contentLines: MermaidBlockLine[],
+		keywords: readonly string[],
+	): vscode.DocumentSymbol[] {
+		const root: vscode.DocumentSymbol[] = [];
+		let section: vscode.DocumentSymbol | undefined;
+
+		for (const contentLine of contentLines) {
+			const trimmed = contentLine.text.trim();
+			if (!trimmed || trimmed.startsWith('%%')) {
+				continue;
+			}
+
+			const sectionMatch = /^section\s+(.+)$/.exec(trimmed);
+			if (sectionMatch) {
+				section = new vscode.DocumentSymbol(
+					sectionMatch[1].trim(),
+					'section',
+					vscode.SymbolKind.Namespace,
+					lineRange(contentLine),
+					lineRange(contentLine),
+				);
+				root.push(section);
+				continue;
+			}
+
+			// Settings such as `axisFormat %H:%M` contain colons too
+			const taskMatch = /^([^:]+?)\s*:/.exec(trimmed);
+			const firstWord = trimmed.split(/\s+/)[0];
+			if (
+				!taskMatch ||
+				keywords.includes(firstWord) ||
+				/^(accTitle|accDescr)\b/.test(firstWord)
+			) {
+				continue;
+			}
+
+			const start = contentLine.character + contentLine.text.indexOf(trimmed);
+			const task = new vscode.DocumentSymbol(
+				taskMatch[1],
+				'',
+				vscode.SymbolKind.Event,
+				lineRange(contentLine),
+				new vscode.Range(
+					contentLine.line,
+					start,
+					contentLine.line,
+					start + taskMatch[1].length,
+				),
+			);
+			if (section) {
+				// Sections run until the next section or the end of the diagram
+				section.range = new vscode.Range(section.range.start, task.range.end);
+				section.children.push(task);
+			} else {
+				root.push(task);
+			}
+		}
+
+		return root;
+	}
+}
+
+/**
+ * The definition of every identifier (its first declaration, or first use when
+ * it is only declared implicitly), grouped by document line.
+ */
+function findDefinitionsByLine(
+	block: MermaidBlock,
+): Map<number, IdentifierToken[]> {
+	const definitions = new Map<string, IdentifierToken>();
+	for (const token of getIdentifierTokens(block)) {
+		if (token.kind !== 'node') {
+			continue;
+		}
+		const current = definitions.get(token.name);
+		if (!current || (token.declares && !current.declares)) {
+			definitions.set(token.name, token);
+		}
+	}
+
+	const byLine = new Map<number, IdentifierToken[]>();
+	for (const token of definitions.values()) {
+		byLine.set(token.line, [...(byLine.get(token.line) ?? []), token]);
+	}
+	return byLine;
+}
+
+function lineRange(contentLine: MermaidBlockLine): vscode.Range {
+	return new vscode.Range(
+		contentLine.line,
+		contentLine.character,
+		contentLine.line,
+		contentLine.character + contentLine.text.length,
+	);
+}
+
+// Display name from `participant A as Alice` or `state "Long name" as A`
+function aliasOf(trimmed: string, name: string): string {
+	const alias =
+		/^(?:participant|actor)\s+\S+\s+as\s+(.+)$/.exec(trimmed)?.[1] ??
+		/^state\s+"([^"]*)"\s+as\s/.exec(trimmed)?.[1];
+	return alias && alias !== name ? alias.trim() : '';
+}
+
+// `subgraph id [Label]`, `subgraph "Label"`, `box Aqua Label`, `namespace Name {`
+function groupName(trimmed: string, keyword: string): string {
+	const rest = trimmed
+		.slice(keyword.length)
+		.replace(/\{\s*$/, '')
+		.trim();
+	if (keyword === 'box') {
+		return rest.slice(boxColor(rest).length).trim();
+	}
+	const label = /^([\w-]+)\s*\[\s*"?([^\]"]*)"?\s*\]$/.exec(rest);
+	return label ? label[2].trim() || label[1] : rest.replace(/^"(.*)"$/, '$1');
+}
+
+// The background colour a box's text starts with, which is not part of its name
+function boxColor(rest: string): string {
+	const color = /^(?:(?:rgba?|hsla?)\([^)]*\)|#\w+)/i.exec(rest)?.[0];
+	if (color) {
+		return color;
+	}
+	const word = /^[a-z]+(?=\s|$)/i.exec(rest)?.[0] ?? '';
+	return word.toLowerCase() === 'transparent' || isNamedColor(word) ? word : '';
+}
@@ -0,0 +1,38 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type ArrowSpacing, formatDiagramLines } from '../formatter';
+
+function format(source: string, arrowSpacing: ArrowSpacing = 'spaced') {
+	return formatDiagramLines(source.split('\n'), {
+		indent: '    ',
+		arrowSpacing,
+	})
+		.filter((line) => line !== undefined)
+		.join('\n');
+}
+
+describe('formatDiagramLines', () => {
+	it('keeps a circle arrowhead on a link written without spaces', () => {
+		assert.equal(format('flowchart LR\nA--oB'), 'flowchart LR\n    A --o B');
+	});
+
+	it('keeps a cross arrowhead on a link written without spaces', () => {
+		assert.equal(format('flowchart LR\nA--xB'), 'flowchart LR\n    A --x B');
+	});
+
+	it('spaces a bidirectional arrow', () => {
+		assert.equal(format('flowchart LR\nA<-->B'), 'flowchart LR\n    A <--> B');
+	});
+
+	it('leaves circle and cross arrowheads spaced in compact mode', () => {
+		assert.equal(
+			format('flowchart LR\nA --o B\nC<-->D', 'compact'),
+			'flowchart LR\n    A--o B\n    C<-->D',
+		);
+	});
+
+	it('is idempotent', () => {
+		const once = format('flowchart LR\nE--oF\nA--xB\nA<-->B');
+		assert.equal(format(once), once);
+	});
+});
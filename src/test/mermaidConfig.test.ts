@@ -0,0 +1,31 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toScriptLiteral } from '../mermaidConfig';
+
+// Evaluates a literal the way the preview's inline script would
+function evaluate(literal: string): unknown {
+	return new Function(`let value = ${literal}; return value;`)();
+}
+
+describe('toScriptLiteral', () => {
+	it('keeps a theme name with quotes inside the string', () => {
+		const theme = `it's "ours"'; alert(1); '`;
+		const literal = toScriptLiteral(theme);
+
+		assert.equal(evaluate(literal), theme);
+	});
+
+	it('cannot end the script element', () => {
+		const theme = '</script><script>alert(1)</script>';
+		const literal = toScriptLiteral(theme);
+
+		assert.doesNotMatch(literal, /<\/script/i);
+		assert.equal(evaluate(literal), theme);
+	});
+
+	it('round-trips nested config values', () => {
+		const value = { theme: 'dark', themeVariables: { note: '<b>' } };
+
+		assert.deepEqual(evaluate(toScriptLiteral(value)), value);
+	});
+});
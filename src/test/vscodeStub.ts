@@ -0,0 +1,6 @@
+// Stands in for the `vscode` module, which only exists inside the extension
+// host. The modules under test only use the API when their providers run, so
+// the stub just has to satisfy their imports.
+export const window = {};
+export const workspace = {};
+export class EventEmitter {}
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import {
+	isPlainObject,
+	type MermaidConfig,
+	MermaidConfigFiles,
+} from './mermaidConfig';
+
+export type PreviewAppearance = 'matchVSCode' | 'light' | 'dark';
+
+export const BUILT_IN_THEMES: readonly string[] = [
+	'default',
+	'dark',
+	'forest',
+	'neutral',
+	'base',
+];
+
+// Pseudo theme resolved inside webviews from the active VS Code colour theme
+export const VSCODE_COLORS_THEME = 'vscode';
+
+/**
+ * Webview script shared by the preview and the export renderer. A config whose
+ * theme is `vscode` becomes the `base` theme with variables read from the
+ * webview's `--vscode-*` CSS variables; explicit themeVariables still win.
+ */
+export const VSCODE_COLORS_SCRIPT = `
+        function readVSCodeColor(...names) {
+            const style = getComputedStyle(document.documentElement);
+            for (const name of names) {
+                const value = style.getPropertyValue('--vscode-' + name).trim();
+                if (value) {
+                    return value;
+                }
+            }
+            return undefined;
+        }
+
+        function vscodeThemeVariables() {
+            const classes = document.body.classList;
+            const highContrast = classes.contains('vscode-high-contrast') || classes.contains('vscode-high-contrast-light');
+            const darkMode = classes.contains('vscode-dark') || (classes.contains('vscode-high-contrast') && !classes.contains('vscode-high-contrast-light'));
+            const foreground = readVSCodeColor('editor-foreground', 'foreground');
+            const border = highContrast
+                ? readVSCodeColor('contrastBorder', 'focusBorder')
+                : readVSCodeColor('editorWidget-border', 'panel-border', 'focusBorder');
+            const variables = {
+                darkMode,
+                background: readVSCodeColor('editor-background'),
+                fontFamily: readVSCodeColor('font-family'),
+                primaryColor: readVSCodeColor('editorWidget-background', 'sideBar-background', 'editor-background'),
+                primaryTextColor: foreground,
+                primaryBorderColor: border,
+                secondaryColor: readVSCodeColor('sideBar-background', 'editorGroupHeader-tabsBackground'),
+                tertiaryColor: readVSCodeColor('editorGroupHeader-tabsBackground', 'panel-background'),
+                lineColor: highContrast ? border : readVSCodeColor('editorLineNumber-activeForeground', 'foreground'),
+                textColor: foreground,
+                titleColor: foreground,
+                edgeLabelBackground: readVSCodeColor('editor-background'),
+                clusterBkg: readVSCodeColor('sideBar-background', 'editor-background'),
+                clusterBorder: border,
+                noteBkgColor: readVSCodeColor('editorHoverWidget-background', 'editorWidget-background'),
+                noteTextColor: readVSCodeColor('editorHoverWidget-foreground', 'editor-foreground'),
+                noteBorderColor: readVSCodeColor('editorHoverWidget-border', 'editorWidget-border')
+            };
+            // Unset variables are left for Mermaid to derive
+            for (const key of Object.keys(variables)) {
+                if (variables[key] === undefined) {
+                    delete variables[key];
+                }
+            }
+            return variables;
+        }
+
+        function withVSCodeColors(config) {
+            if (config.theme !== '${VSCODE_COLORS_THEME}') {
+                return config;
+            }
+            return {
+                ...config,
+                theme: 'base',
+                themeVariables: { ...vscodeThemeVariables(), ...(config.themeVariables || {}) }
+            };
+        }
+`;
+
+export type CustomTheme = {
+	label: string;
+	// Built-in Mermaid theme the custom theme starts from
+	baseTheme: string;
+	themeVariables: Record<string, unknown>;
+	css: string;
+};
+
+/**
+ * Named themes from the `customThemes` setting, normalized so the preview and
+ * exports can rely on every field being present.
+ */
+export function getCustomThemes(): Record<string, CustomTheme> {
+	const configured = vscode.workspace
+		.getConfiguration('mermaidLivePreview')
+		.get<unknown>('customThemes', {});
+	const themes: Record<string, CustomTheme> = {};
+	if (!isPlainObject(configured)) {
+		return themes;
+	}
+
+	for (const [name, value] of Object.entries(configured)) {
+		if (!name || BUILT_IN_THEMES.includes(name) || !isPlainObject(value)) {
+			continue;
+		}
+		themes[name] = {
+			label:
+				typeof value.label === 'string' && value.label ? value.label : name,
+			baseTheme:
+				typeof value.baseTheme === 'string' &&
+				BUILT_IN_THEMES.includes(value.baseTheme)
+					? value.baseTheme
+					: 'base',
+			themeVariables: isPlainObject(value.themeVariables)
+				? value.themeVariables
+				: {},
+			css: typeof value.css === 'string' ? value.css : '',
+		};
+	}
+	return themes;
+}
+
+/**
+ * Adds the selected theme to a Mermaid config. Custom themes become their base
+ * theme plus their variables and CSS; the webview applies the same rules when a
+ * theme is picked from the dropdown.
+ */
+export function applyTheme(
+	themeName: string,
+	config: MermaidConfig,
+	customThemes: Record<string, CustomTheme> = getCustomThemes(),
+): MermaidConfig {
+	const custom = customThemes[themeName];
+	if (!custom) {
+		return { ...config, theme: themeName };
+	}
+
+	const themeVariables = isPlainObject(config.themeVariables)
+		? config.themeVariables
+		: {};
+	const themeCSS = [config.themeCSS, custom.css]
+		.filter((css) => typeof css === 'string' && css)
+		.join('\n');
+	return {
+		...config,
+		theme: custom.baseTheme,
+		themeVariables: { ...themeVariables, ...custom.themeVariables },
+		...(themeCSS ? { themeCSS } : {}),
+	};
+}
+
+/**
+ * The `theme` set by the nearest Mermaid config file for `resource`, if any.
+ */
+export function getConfigFileTheme(resource?: vscode.Uri): string | undefined {
+	const theme = MermaidConfigFiles.instance.getConfig(resource)?.theme;
+	return typeof theme === 'string' ? theme : undefined;
+}
+
+/**
+ * Resolves the Mermaid theme from settings. Shared by the preview and by
+ * renders that happen without a preview (exports), so both produce the same
+ * output for the same settings. A theme picked in the preview wins, then the
+ * `theme` of the nearest config file for `resource`, then the settings.
+ */
+export function resolveTheme(
+	overrideTheme?: string,
+	resource?: vscode.Uri,
+): {
+	theme: string;
+	appearance: PreviewAppearance;
+} {
+	const config = vscode.workspace.getConfiguration('mermaidLivePreview');
+	const useVSCodeTheme = config.get<boolean>('useVSCodeTheme', false);
+	const configuredTheme = config.get<string>('theme', 'default');
+	const appearance = config.get<PreviewAppearance>(
+		'previewAppearance',
+		'matchVSCode',
+	);
+
+	const fileTheme = getConfigFileTheme(resource);
+	let theme = overrideTheme || configuredTheme;
+	if (!overrideTheme && fileTheme) {
+		theme = fileTheme;
+	} else if (useVSCodeTheme && !overrideTheme) {
+		if (appearance === 'light') {
+			theme = 'default';
+		} else if (appearance === 'dark') {
+			theme = 'dark';
+		} else {
+			const colorTheme = vscode.window.activeColorTheme;
+			theme =
+				colorTheme.kind === vscode.ColorThemeKind.Dark ? 'dark' : 'default';
+		}
+	}
+
+	// A theme that no longer exists (e.g. a removed custom theme) falls back
+	if (
+		!BUILT_IN_THEMES.includes(theme) &&
+		theme !== VSCODE_COLORS_THEME &&
+		!(theme in getCustomThemes())
+	) {
+		theme = 'default';
+	}
+
+	return { theme, appearance };
+}